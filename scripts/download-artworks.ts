@@ -1,10 +1,14 @@
 import fs from "node:fs";
 import path from "node:path";
+import jpeg from "jpeg-js";
+import { analyzePixels, rgbToHex } from "../src/infinite-canvas/color-analysis";
+import type { PaletteSwatch } from "../src/infinite-canvas/types";
 
 const API_BASE = "https://api.artic.edu/api/v1";
 const IIIF_BASE = "https://www.artic.edu/iiif/2";
 const OUTPUT_DIR = "./public/artworks";
-const MANIFEST_PATH = "./public/artworks/manifest.json";
+// The manifest the app bundles as its default collection, see `src/collections/config.ts`
+const MANIFEST_PATH = "./src/artworks/manifest.json";
 
 const HEADERS = {
   "User-Agent":
@@ -31,8 +35,20 @@ type ManifestItem = {
   link: string;
   width: number;
   height: number;
+  sources: { url: string; width: number; height: number }[];
+  /** IIIF image service for tiles beyond the saved copy; see `MediaItem.iiif`. */
+  iiif: string;
+  dominantColor?: string;
+  palette?: PaletteSwatch[];
+  /** MIME type; hand-added video and animated entries can set it, see `MediaItem.type`. */
+  type?: string;
 };
 
+// Width of the copy saved locally; the gallery fetches IIIF tiles for anything sharper
+const IMAGE_WIDTH = 512;
+// Tiny rendition the gallery shows first, before upgrading to the saved image
+const THUMB_WIDTH = 128;
+
 const SEARCH_QUERY = {
   query: {
     bool: {
@@ -81,8 +97,8 @@ async function fetchAllArtworks(): Promise<ArticArtwork[]> {
   return allArtworks.slice(0, 250);
 }
 
-async function downloadImage(imageId: string, filepath: string): Promise<boolean> {
-  const url = `${IIIF_BASE}/${imageId}/full/512,/0/default.jpg`;
+async function downloadImage(imageId: string, filepath: string, width = IMAGE_WIDTH): Promise<boolean> {
+  const url = `${IIIF_BASE}/${imageId}/full/${width},/0/default.jpg`;
 
   try {
     const res = await fetch(url, { headers: HEADERS });
@@ -100,6 +116,18 @@ async function downloadImage(imageId: string, filepath: string): Promise<boolean
   }
 }
 
+/** Sample colors from a downloaded JPEG, the same way the gallery does at runtime. */
+function analyzeImage(filepath: string): Pick<ManifestItem, "dominantColor" | "palette"> {
+  try {
+    const { data } = jpeg.decode(fs.readFileSync(filepath), { useTArray: true, formatAsRGBA: true });
+    const { dominant, palette } = analyzePixels(data);
+    return { dominantColor: rgbToHex(dominant), palette };
+  } catch (err) {
+    console.error(`  Color analysis failed:`, err);
+    return {};
+  }
+}
+
 async function main() {
   fs.mkdirSync(OUTPUT_DIR, { recursive: true });
 
@@ -113,6 +141,13 @@ async function main() {
     const artwork = artworks[i];
     const filename = `${artwork.image_id}.jpg`;
     const filepath = path.join(OUTPUT_DIR, filename);
+    const thumbFilename = `${artwork.image_id}-${THUMB_WIDTH}.jpg`;
+    const thumbFilepath = path.join(OUTPUT_DIR, thumbFilename);
+    // Full-resolution size, which the saved copy is scaled down from
+    const fullWidth = artwork.thumbnail?.width ?? 0;
+    const fullHeight = artwork.thumbnail?.height ?? 0;
+    const width = fullWidth ? IMAGE_WIDTH : 0;
+    const height = fullWidth ? Math.round((IMAGE_WIDTH * fullHeight) / fullWidth) : 0;
 
     const item: ManifestItem = {
       url: `/artworks/${filename}`,
@@ -120,13 +155,28 @@ async function main() {
       artist: artwork.artist_display || "Unknown Artist",
       year: artwork.date_display,
       link: `https://www.artic.edu/artworks/${artwork.id}`,
-      width: artwork.thumbnail?.width ?? 0,
-      height: artwork.thumbnail?.height ?? 0,
+      width,
+      height,
+      iiif: `${IIIF_BASE}/${artwork.image_id}`,
+      sources: [
+        {
+          url: `/artworks/${thumbFilename}`,
+          width: THUMB_WIDTH,
+          height: width ? Math.round((THUMB_WIDTH * height) / width) : THUMB_WIDTH,
+        },
+      ],
     };
 
+    if (!fs.existsSync(thumbFilepath) && !(await downloadImage(artwork.image_id, thumbFilepath, THUMB_WIDTH))) {
+      item.sources = [];
+    }
+
+    // The thumbnail is plenty for a palette and much cheaper to decode
+    const analysisPath = item.sources.length ? thumbFilepath : filepath;
+
     if (fs.existsSync(filepath)) {
       console.log(`[${i + 1}/${artworks.length}] Skipping (exists): ${artwork.title.slice(0, 40)}`);
-      manifest.push(item);
+      manifest.push({ ...item, ...analyzeImage(analysisPath) });
       continue;
     }
 
@@ -134,7 +184,7 @@ async function main() {
     const success = await downloadImage(artwork.image_id, filepath);
 
     if (success) {
-      manifest.push(item);
+      manifest.push({ ...item, ...analyzeImage(analysisPath) });
     }
 
     await sleep(500);
@@ -1,6 +1,7 @@
 import cors from "cors";
 import express from "express";
 import { CopilotRuntime, AnthropicAdapter, copilotRuntimeNodeHttpEndpoint } from "@copilotkit/runtime";
+import { createMediaFolderRouter } from "./media-folder";
 
 const app = express();
 app.use(cors());
@@ -29,6 +30,9 @@ app.use((req, res, next) => {
   }
 });
 
+// Images for the gallery's `?folder` collection
+app.use("/api/media", createMediaFolderRouter(process.env.MEDIA_DIR ?? "media"));
+
 const PORT = 4200;
 app.listen(PORT, () => {
   console.log(`CopilotKit server running on http://localhost:${PORT}`);
@@ -0,0 +1,165 @@
+import { open, readdir } from "node:fs/promises";
+import path from "node:path";
+import express from "express";
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".png": "image/png",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+};
+
+// Enough for the header of every format above; JPEG metadata can push its frame header further in
+const HEADER_BYTES = 256 * 1024;
+const MAX_PAGE_SIZE = 500;
+// Files measured at once per request, each by a worker reusing one header buffer
+const MEASURE_CONCURRENCY = 8;
+// Re-read the folder listing at most this often, so new files show up without a restart
+const LISTING_TTL_MS = 10_000;
+
+type Dimensions = { width: number; height: number };
+
+/** EXIF orientation tag of the APP1 segment between `start` and `end`; 1 (upright) when it has none. */
+const readExifOrientation = (buf: Buffer, start: number, end: number): number => {
+  if (buf.toString("ascii", start, start + 6) !== "Exif\0\0") return 1;
+  const tiff = start + 6;
+  if (tiff + 8 > end) return 1;
+
+  const little = buf.toString("ascii", tiff, tiff + 2) === "II";
+  const u16 = (at: number) => (little ? buf.readUInt16LE(at) : buf.readUInt16BE(at));
+  const ifd = tiff + (little ? buf.readUInt32LE(tiff + 4) : buf.readUInt32BE(tiff + 4));
+  if (ifd + 2 > end) return 1;
+
+  const count = u16(ifd);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) return 1;
+    if (u16(entry) === 0x0112) return u16(entry + 8);
+  }
+  return 1;
+};
+
+/** Size as displayed: browsers apply the EXIF orientation, and 5-8 turn the image on its side. */
+const readJpegSize = (buf: Buffer): Dimensions | null => {
+  let orientation = 1;
+  let offset = 2;
+  while (offset + 9 < buf.length) {
+    if (buf[offset] !== 0xff) return null;
+    const marker = buf[offset + 1];
+    const length = buf.readUInt16BE(offset + 2);
+    // SOF0-SOF15, except DHT (C4), JPG (C8) and DAC (CC)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      const height = buf.readUInt16BE(offset + 5);
+      const width = buf.readUInt16BE(offset + 7);
+      return orientation >= 5 && orientation <= 8 ? { width: height, height: width } : { width, height };
+    }
+    if (marker === 0xe1 && orientation === 1) {
+      orientation = readExifOrientation(buf, offset + 4, Math.min(offset + 2 + length, buf.length));
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readWebpSize = (buf: Buffer): Dimensions | null => {
+  const chunk = buf.toString("ascii", 12, 16);
+  if (chunk === "VP8X") return { width: buf.readUIntLE(24, 3) + 1, height: buf.readUIntLE(27, 3) + 1 };
+  if (chunk === "VP8L") {
+    const bits = buf.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === "VP8 ") return { width: buf.readUInt16LE(26) & 0x3fff, height: buf.readUInt16LE(28) & 0x3fff };
+  return null;
+};
+
+/** Pixel size from the file header, without decoding; null for anything unrecognized. */
+const readImageSize = (buf: Buffer): Dimensions | null => {
+  if (buf.length < 30) return null;
+  if (buf[0] === 0xff && buf[1] === 0xd8) return readJpegSize(buf);
+  if (buf.toString("ascii", 1, 4) === "PNG") return { width: buf.readUInt32BE(16), height: buf.readUInt32BE(20) };
+  if (buf.toString("ascii", 0, 3) === "GIF") return { width: buf.readUInt16LE(6), height: buf.readUInt16LE(8) };
+  if (buf.toString("ascii", 0, 4) === "RIFF" && buf.toString("ascii", 8, 12) === "WEBP") return readWebpSize(buf);
+  return null;
+};
+
+const measure = async (file: string, header: Buffer): Promise<Dimensions | null> => {
+  const handle = await open(file, "r");
+  try {
+    const { bytesRead } = await handle.read(header, 0, HEADER_BYTES, 0);
+    return readImageSize(header.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+};
+
+/** Sizes of `files`, in order, measured `MEASURE_CONCURRENCY` at a time; null for unreadable ones. */
+const measureAll = async (files: string[]): Promise<(Dimensions | null)[]> => {
+  const sizes: (Dimensions | null)[] = files.map(() => null);
+  let next = 0;
+  const work = async () => {
+    const header = Buffer.alloc(HEADER_BYTES);
+    while (next < files.length) {
+      const i = next++;
+      sizes[i] = await measure(files[i], header).catch(() => null);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(MEASURE_CONCURRENCY, files.length) }, work));
+  return sizes;
+};
+
+const stripExtension = (name: string): string => name.replace(/\.[^.]+$/, "");
+
+/**
+ * Serves the images in `dir` as a paged collection: `GET /?cursor=&limit=` answers
+ * `{ items: MediaItem[], next }`, with files under `/files/`. Images are measured as their page is
+ * requested, so folders of any size list quickly; unreadable ones are skipped.
+ */
+export const createMediaFolderRouter = (dir: string) => {
+  const router = express.Router();
+  let listing: { names: string[]; at: number } | null = null;
+
+  const listImages = async (): Promise<string[]> => {
+    if (listing && Date.now() - listing.at < LISTING_TTL_MS) return listing.names;
+
+    const entries = await readdir(dir, { withFileTypes: true });
+    const names = entries
+      .filter((e) => e.isFile() && !e.name.startsWith(".") && IMAGE_EXTENSIONS[path.extname(e.name).toLowerCase()])
+      .map((e) => e.name)
+      .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+    listing = { names, at: Date.now() };
+    return names;
+  };
+
+  router.use("/files", express.static(dir, { maxAge: "1h" }));
+
+  router.get("/", async (req, res) => {
+    try {
+      const names = await listImages();
+      const start = Math.max(0, Number(req.query.cursor) || 0);
+      const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(req.query.limit) || 100));
+      const page = names.slice(start, start + limit);
+
+      const sizes = await measureAll(page.map((name) => path.join(dir, name)));
+      const measured = page.map((name, i) => {
+        const size = sizes[i];
+        if (!size?.width || !size.height) return null;
+        return {
+          url: `${req.baseUrl}/files/${encodeURIComponent(name)}`,
+          width: size.width,
+          height: size.height,
+          title: stripExtension(name),
+          type: IMAGE_EXTENSIONS[path.extname(name).toLowerCase()],
+        };
+      });
+
+      const end = start + page.length;
+      res.json({ items: measured.filter(Boolean), next: end < names.length ? String(end) : null });
+    } catch (err) {
+      console.error("Failed to list media folder:", err);
+      res.status(500).json({ error: "Failed to list media folder" });
+    }
+  });
+
+  return router;
+};
@@ -1,52 +1,199 @@
 import { CopilotKit } from "@copilotkit/react-core";
 import * as React from "react";
-import manifest from "~/src/artworks/manifest.json";
+import { ArtworkDetail } from "~/src/artwork-detail";
 import { ChatPanel } from "~/src/chat";
+import { getCollectionSources } from "~/src/collections/config";
+import { useCollection } from "~/src/collections/use-collection";
 import { CopilotActions } from "~/src/copilot/actions";
 import { EffectsProvider } from "~/src/copilot/effects-context";
 import { CopilotReadables } from "~/src/copilot/readables";
+import { EffectsPane } from "~/src/effects-pane";
+import { SharePane } from "~/src/gallery-preset";
+import { decodePresetHash, effectsFromPreset } from "~/src/gallery-preset/preset";
+import type { GalleryPreset, SceneColors } from "~/src/gallery-preset/preset";
 import { Frame } from "~/src/frame";
 import { InfiniteCanvas } from "~/src/infinite-canvas";
+import { loadKeyBindings, saveKeyBindings } from "~/src/infinite-canvas/input-bindings";
+import { filterMedia } from "~/src/infinite-canvas/media-query";
+import type { MediaQuery } from "~/src/infinite-canvas/media-query";
 import { DEFAULT_LAYOUT_PARAMS } from "~/src/infinite-canvas/types";
-import type { LayoutParams, MediaItem } from "~/src/infinite-canvas/types";
+import type {
+  ArtworkSelection,
+  BackgroundStyle,
+  CanvasController,
+  FocusEffectType,
+  KeyBindings,
+  LayoutParams,
+  MediaItem,
+  QualityMode,
+} from "~/src/infinite-canvas/types";
 import { LayoutPane } from "~/src/layout-pane";
+import { TourLauncher, TourPlayer } from "~/src/tour";
+import type { Tour } from "~/src/tour/tour";
 import { MusicPlayer } from "~/src/music-player";
 import { PageLoader } from "~/src/loader";
+import { SearchPane } from "~/src/search-pane";
+import { UploadDropZone, UploadsPanel } from "~/src/uploads";
+import { useUploads } from "~/src/uploads/use-uploads";
+
+// `?debug` shows the FPS meter and texture cache stats
+const DEBUG = new URLSearchParams(window.location.search).has("debug");
+
+const readInitialPreset = (): GalleryPreset | null => {
+  const result = decodePresetHash(window.location.hash);
+  if (result && !result.ok) console.error("Ignoring preset from URL:", result.error);
+  return result?.ok ? result.preset : null;
+};
 
 export function App() {
-  const [media, setMedia] = React.useState<MediaItem[]>(manifest);
+  const [initialPreset] = React.useState(readInitialPreset);
+  const [initialEffects] = React.useState(() => (initialPreset ? effectsFromPreset(initialPreset) : undefined));
+  const [sources] = React.useState(() => getCollectionSources(window.location.search));
+  const collection = useCollection(sources);
+  const { uploads, progress: uploadProgress, addFiles, dismissRejected, rename, remove } = useUploads();
+  const media = React.useMemo<MediaItem[]>(
+    () => [...collection.media, ...uploads.map((u) => u.item)],
+    [collection.media, uploads]
+  );
+  const [query, setQuery] = React.useState<MediaQuery>({});
+  const visibleMedia = React.useMemo(() => filterMedia(media, query), [media, query]);
   const [textureProgress, setTextureProgress] = React.useState(0);
-  const [layoutParams, setLayoutParams] = React.useState<LayoutParams>(DEFAULT_LAYOUT_PARAMS);
-  const [sceneColors, setSceneColorsState] = React.useState({ backgroundColor: "#ffffff", fogColor: "#ffffff" });
+  const [layoutParams, setLayoutParams] = React.useState<LayoutParams>(initialPreset?.layout ?? DEFAULT_LAYOUT_PARAMS);
+  const [focusEffectType, setFocusEffectType] = React.useState<FocusEffectType>(initialPreset?.focusEffectType ?? "fire");
+  const [sceneColors, setSceneColorsState] = React.useState<SceneColors>(
+    initialPreset?.sceneColors ?? { backgroundColor: "#ffffff", fogColor: "#ffffff", backgroundStyle: "solid" }
+  );
 
-  const setSceneColors = React.useCallback((bg: string, fog: string) => {
-    setSceneColorsState({ backgroundColor: bg, fogColor: fog });
+  const [quality, setQuality] = React.useState<QualityMode>("auto");
+  const [keyBindings, setKeyBindingsState] = React.useState(loadKeyBindings);
+
+  const setKeyBindings = React.useCallback((bindings: KeyBindings) => {
+    setKeyBindingsState(bindings);
+    saveKeyBindings(bindings);
   }, []);
 
-  const addUploadedMedia = React.useCallback((items: MediaItem[]) => {
-    setMedia((prev) => [...prev, ...items]);
+  const [selection, setSelection] = React.useState<ArtworkSelection | null>(null);
+  const canvasRef = React.useRef<CanvasController>(null);
+
+  const [tour, setTour] = React.useState<Tour | null>(null);
+  const [tourRun, setTourRun] = React.useState(0);
+
+  const startTour = React.useCallback((next: Tour) => {
+    setSelection(null);
+    setTour(next);
+    setTourRun((n) => n + 1);
   }, []);
 
-  if (!media.length) {
+  const closeTour = React.useCallback(() => setTour(null), []);
+
+  const jumpToMedia = React.useCallback((url: string) => {
+    const target = canvasRef.current?.flyToMedia(url);
+    if (target) setSelection(target);
+    return !!target;
+  }, []);
+
+  const closeSelection = React.useCallback(() => {
+    canvasRef.current?.restoreCamera();
+    setSelection(null);
+  }, []);
+
+  const setSceneColors = React.useCallback((bg: string, fog: string, style?: BackgroundStyle) => {
+    setSceneColorsState((prev) => ({ backgroundColor: bg, fogColor: fog, backgroundStyle: style ?? prev.backgroundStyle }));
+  }, []);
+
+  const setBackgroundStyle = React.useCallback((backgroundStyle: BackgroundStyle) => {
+    setSceneColorsState((prev) => ({ ...prev, backgroundStyle }));
+  }, []);
+
+  const applyPreset = React.useCallback((preset: GalleryPreset) => {
+    setLayoutParams(preset.layout);
+    setSceneColorsState(preset.sceneColors);
+    setFocusEffectType(preset.focusEffectType);
+  }, []);
+
+  // Only the collection's first page is waited for; uploads are restored and later pages appended as they arrive
+  if (collection.loading) {
     return <PageLoader progress={0} />;
   }
 
   return (
     <CopilotKit runtimeUrl="/api/copilotkit">
-      <EffectsProvider>
-        <Frame onUpload={addUploadedMedia} />
+      <EffectsProvider initialState={initialEffects}>
+        <Frame onUpload={addFiles} />
+        <UploadDropZone onFiles={addFiles} />
+        <UploadsPanel
+          uploads={uploads}
+          progress={uploadProgress}
+          onRename={rename}
+          onDelete={remove}
+          onDismissRejected={dismissRejected}
+        />
         <PageLoader progress={textureProgress} />
         <InfiniteCanvas
-          media={media}
+          media={visibleMedia}
           onTextureProgress={setTextureProgress}
-          focusEffectType="fire"
+          focusEffectType={focusEffectType}
           layoutParams={layoutParams}
           backgroundColor={sceneColors.backgroundColor}
           fogColor={sceneColors.fogColor}
+          backgroundStyle={sceneColors.backgroundStyle}
+          quality={quality}
+          keyBindings={keyBindings}
+          onArtworkSelect={setSelection}
+          controllerRef={canvasRef}
+          initialCameraPosition={initialPreset?.camera ?? undefined}
+          showFps={DEBUG}
+          showTextureStats={DEBUG}
+        />
+        <ArtworkDetail selection={selection} onClose={closeSelection} />
+        {tour && <TourPlayer key={tourRun} tour={tour} media={visibleMedia} controllerRef={canvasRef} onClose={closeTour} />}
+        <SearchPane
+          query={query}
+          onChange={setQuery}
+          results={visibleMedia}
+          total={media.length}
+          onJump={jumpToMedia}
+          onLoadMore={collection.hasMore ? collection.loadMore : undefined}
+        />
+        <LayoutPane
+          params={layoutParams}
+          onChange={setLayoutParams}
+          focusEffectType={focusEffectType}
+          onFocusEffectChange={setFocusEffectType}
+          backgroundStyle={sceneColors.backgroundStyle}
+          onBackgroundStyleChange={setBackgroundStyle}
+          quality={quality}
+          onQualityChange={setQuality}
+          keyBindings={keyBindings}
+          onKeyBindingsChange={setKeyBindings}
+          mediaCount={visibleMedia.length}
+        />
+        <EffectsPane media={media} />
+        <SharePane
+          layoutParams={layoutParams}
+          sceneColors={sceneColors}
+          focusEffectType={focusEffectType}
+          onApply={applyPreset}
+          controllerRef={canvasRef}
+        />
+        <TourLauncher media={visibleMedia} onStart={startTour} />
+        <CopilotActions
+          media={media}
+          setSceneColors={setSceneColors}
+          setLayoutParams={setLayoutParams}
+          setFocusEffectType={setFocusEffectType}
+          startTour={startTour}
+          query={query}
+          setQuery={setQuery}
+          jumpToMedia={jumpToMedia}
+        />
+        <CopilotReadables
+          media={media}
+          visibleMedia={visibleMedia}
+          query={query}
+          layoutParams={layoutParams}
+          focusEffectType={focusEffectType}
         />
-        <LayoutPane params={layoutParams} onChange={setLayoutParams} />
-        <CopilotActions setSceneColors={setSceneColors} setLayoutParams={setLayoutParams} />
-        <CopilotReadables media={media} layoutParams={layoutParams} />
         <ChatPanel />
         <MusicPlayer />
       </EffectsProvider>
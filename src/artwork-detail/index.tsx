@@ -0,0 +1,49 @@
+import * as React from "react";
+import type { ArtworkSelection } from "~/src/infinite-canvas/types";
+import styles from "./style.module.css";
+
+export function ArtworkDetail({ selection, onClose }: { selection: ArtworkSelection | null; onClose: () => void }) {
+  React.useEffect(() => {
+    if (!selection) return;
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      }
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [selection, onClose]);
+
+  if (!selection) {
+    return null;
+  }
+
+  const { media } = selection;
+
+  return (
+    <aside className={styles.panel} aria-label="Artwork details">
+      <button className={styles.close} onClick={onClose} type="button" aria-label="Close details">
+        {"✕"}
+      </button>
+      <h2 className={styles.title}>{media.title ?? "Untitled"}</h2>
+      <dl className={styles.meta}>
+        <dt>Artist</dt>
+        <dd>{media.artist ?? "Unknown"}</dd>
+        <dt>Year</dt>
+        <dd>{media.year ?? "Unknown"}</dd>
+        <dt>Size</dt>
+        <dd>
+          {media.width} × {media.height}px
+        </dd>
+      </dl>
+      {media.link && (
+        <a className={styles.link} href={media.link} target="_blank" rel="noreferrer">
+          View source
+        </a>
+      )}
+      <p className={styles.hint}>Press Esc to return</p>
+    </aside>
+  );
+}
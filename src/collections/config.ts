@@ -0,0 +1,22 @@
+import manifestUrl from "~/src/artworks/manifest.json?url";
+import { createFolderSource } from "./folder-source";
+import { createIiifSource } from "./iiif-source";
+import { createManifestSource } from "./manifest-source";
+import type { CollectionSource } from "./source";
+
+/**
+ * Sources named in the page's query string: `?manifest=<url>` for a JSON manifest, `?iiif=<url>` for a
+ * IIIF manifest or collection (both repeatable) and `?folder` for the server's media folder. Without
+ * any, the bundled artworks manifest. As committed it lists local photos with no `sources` or IIIF
+ * service, so they load through client-side downscales and don't deep zoom; running
+ * `scripts/download-artworks.ts` replaces it with Art Institute of Chicago paintings that have both.
+ */
+export const getCollectionSources = (search: string): CollectionSource[] => {
+  const params = new URLSearchParams(search);
+  const sources = [
+    ...params.getAll("manifest").map((url) => createManifestSource(url)),
+    ...params.getAll("iiif").map((url) => createIiifSource(url)),
+    ...(params.has("folder") ? [createFolderSource()] : []),
+  ];
+  return sources.length ? sources : [createManifestSource(manifestUrl)];
+};
@@ -0,0 +1,18 @@
+import { DEFAULT_PAGE_SIZE, fetchJson, parseMediaItems } from "./source";
+import type { CollectionSource } from "./source";
+
+/** Where the Express server lists the images in its `MEDIA_DIR`; see `server/media-folder.ts`. */
+export const FOLDER_ENDPOINT = "/api/media";
+
+/** Images in a local folder, listed and measured by the server a page at a time. */
+export const createFolderSource = (endpoint = FOLDER_ENDPOINT, pageSize = DEFAULT_PAGE_SIZE): CollectionSource => ({
+  id: `folder:${endpoint}`,
+  loadPage: async (cursor, signal) => {
+    const params = new URLSearchParams({ limit: String(pageSize) });
+    if (cursor) params.set("cursor", cursor);
+
+    const raw = await fetchJson(`${endpoint}?${params}`, signal);
+    const page = typeof raw === "object" && raw !== null ? (raw as { items?: unknown; next?: unknown }) : {};
+    return { items: parseMediaItems(page.items), next: typeof page.next === "string" ? page.next : null };
+  },
+});
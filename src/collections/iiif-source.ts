@@ -0,0 +1,187 @@
+import type { MediaItem, MediaMeta, MediaRendition } from "~/src/infinite-canvas/types";
+import { DEFAULT_PAGE_SIZE, fetchJson, pageArray } from "./source";
+import type { CollectionSource } from "./source";
+
+type Json = Record<string, unknown>;
+
+// Renditions requested from an image service, on top of the capped original
+const RENDITION_WIDTHS = [256, 1024];
+// Widest image requested through a service; deep zoom is what shows more than this
+const MAX_SERVICE_WIDTH = 2048;
+// Manifests of a IIIF Collection fetched together for one page
+const MANIFESTS_PER_PAGE = 20;
+
+const ARTIST_LABELS = ["artist", "creator", "author", "maker", "painter", "photographer"];
+const DATE_LABELS = ["date", "created", "date created", "dated"];
+
+const isJson = (value: unknown): value is Json => typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined ? [] : [value]);
+
+const first = (value: unknown): Json | undefined => asArray(value).find(isJson);
+
+/** `id` in Presentation 3, `@id` in 2. */
+const getId = (value: unknown): string | undefined => {
+  if (typeof value === "string") return value;
+  if (!isJson(value)) return undefined;
+  const id = value.id ?? value["@id"];
+  return typeof id === "string" ? id : undefined;
+};
+
+const stripHtml = (text: string): string => text.replace(/<[^>]*>/g, "").trim();
+
+/** Text of a Presentation 2 string or `@value` list, or a Presentation 3 language map, preferring English. */
+const getText = (value: unknown): string | undefined => {
+  if (typeof value === "string") return stripHtml(value) || undefined;
+  if (Array.isArray(value)) {
+    const english = value.find((v) => isJson(v) && typeof v["@language"] === "string" && v["@language"].startsWith("en"));
+    return getText(english ?? value[0]);
+  }
+  if (!isJson(value)) return undefined;
+  if (value["@value"] !== undefined) return getText(value["@value"]);
+
+  const values = value.en ?? value.none ?? Object.values(value)[0];
+  return getText(asArray(values)[0]);
+};
+
+const toCamelCase = (label: string): string =>
+  label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ""))
+    .replace(/^[^a-z]+/, "");
+
+/** `metadata` label/value pairs as artist, year and a `meta` bag for everything else. */
+const readMetadata = (resource: Json): Pick<MediaItem, "artist" | "year" | "meta"> => {
+  let artist: string | undefined;
+  let year: string | undefined;
+  const meta: MediaMeta = {};
+
+  for (const entry of asArray(resource.metadata)) {
+    if (!isJson(entry)) continue;
+    const label = getText(entry.label);
+    const value = getText(entry.value);
+    if (!label || !value) continue;
+
+    const key = label.toLowerCase();
+    if (!artist && ARTIST_LABELS.includes(key)) artist = value;
+    else if (!year && DATE_LABELS.includes(key)) year = value;
+    else if (toCamelCase(label)) meta[toCamelCase(label)] = value;
+  }
+
+  const summary = getText(resource.summary ?? resource.description);
+  if (summary) meta.description = summary;
+  const rights = getText(first(resource.requiredStatement)?.value ?? resource.attribution);
+  if (rights) meta.copyright = rights;
+
+  return { artist, year, meta: Object.keys(meta).length ? meta : undefined };
+};
+
+/** The image painted on a canvas: Presentation 3 annotation body, or Presentation 2 `images[].resource`. */
+const getImage = (canvas: Json): Json | undefined => {
+  const annotation = first(first(canvas.items)?.items);
+  const body = first(annotation?.body ?? first(canvas.images)?.resource);
+  // A Choice between alternative images: take the first
+  return body && (body.type === "Choice" || body["@type"] === "oa:Choice") ? first(body.items ?? body.default) : body;
+};
+
+const getLink = (manifest: Json): string | undefined => getId(first(manifest.homepage) ?? first(manifest.related));
+
+/** One item per canvas with an image; multi-canvas manifests use canvas labels as titles. */
+export const parseIiifManifest = (manifest: Json): MediaItem[] => {
+  const canvases = (Array.isArray(manifest.items) ? manifest.items : asArray(first(manifest.sequences)?.canvases)).filter(isJson);
+  const label = getText(manifest.label);
+  const { artist, year, meta } = readMetadata(manifest);
+  const link = getLink(manifest);
+
+  return canvases.flatMap((canvas): MediaItem[] => {
+    const image = getImage(canvas);
+    const imageUrl = getId(image);
+    const width = Number(canvas.width ?? image?.width) || 0;
+    const height = Number(canvas.height ?? image?.height) || 0;
+    if (!image || !imageUrl || !width || !height) return [];
+
+    const title = (canvases.length > 1 ? getText(canvas.label) : undefined) ?? label;
+    const service = getId(first(image.service))?.replace(/\/$/, "");
+    const format = typeof image.format === "string" ? image.format : undefined;
+    const item: MediaItem = { url: imageUrl, width, height, title, artist, year, link, meta, type: format };
+    if (!service) return [item];
+
+    const sized = (w: number): MediaRendition => ({ url: `${service}/full/${w},/0/default.jpg`, width: w });
+    const full = Math.min(width, MAX_SERVICE_WIDTH);
+    return [
+      {
+        ...item,
+        type: "image/jpeg",
+        iiif: service,
+        url: sized(full).url,
+        width: full,
+        height: Math.round((height * full) / width),
+        sources: RENDITION_WIDTHS.filter((w) => w < full).map(sized),
+      },
+    ];
+  });
+};
+
+/** Manifest urls of a IIIF Collection (either version); null when `doc` is a single manifest. */
+const getCollectionManifests = (doc: Json): string[] | null => {
+  const type = doc.type ?? doc["@type"];
+  if (type !== "Collection" && type !== "sc:Collection") return null;
+
+  const entries = Array.isArray(doc.items) ? doc.items : asArray(doc.manifests);
+  return entries
+    .filter((entry) => isJson(entry) && (entry.type ?? entry["@type"]) !== "Collection")
+    .map(getId)
+    .filter((id): id is string => !!id);
+};
+
+/**
+ * A IIIF Presentation 2 or 3 manifest, or a Collection of them. Manifests are paged through in memory;
+ * Collections fetch their manifests a few at a time as pages are asked for. Nested collections are
+ * not followed.
+ */
+export const createIiifSource = (url: string, pageSize = DEFAULT_PAGE_SIZE): CollectionSource => {
+  let root: Promise<Json> | null = null;
+  let items: MediaItem[] | null = null;
+
+  const loadRoot = (signal: AbortSignal) => {
+    if (!root) {
+      root = fetchJson(url, signal).then((doc) => {
+        if (!isJson(doc)) throw new Error(`${url} is not a IIIF manifest or collection`);
+        return doc;
+      });
+      // Let a failed or aborted load be retried
+      root.catch(() => {
+        root = null;
+      });
+    }
+    return root;
+  };
+
+  return {
+    id: `iiif:${url}`,
+    loadPage: async (cursor, signal) => {
+      const doc = await loadRoot(signal);
+      const manifests = getCollectionManifests(doc);
+      if (!manifests) {
+        items ??= parseIiifManifest(doc);
+        return pageArray(items, cursor, pageSize);
+      }
+
+      const start = Number(cursor ?? 0) || 0;
+      const end = start + MANIFESTS_PER_PAGE;
+      const pages = await Promise.all(
+        manifests.slice(start, end).map(async (manifestUrl) => {
+          try {
+            const manifest = await fetchJson(manifestUrl, signal);
+            return isJson(manifest) ? parseIiifManifest(manifest) : [];
+          } catch (err) {
+            if (signal.aborted) throw err;
+            console.error("Skipping IIIF manifest:", manifestUrl, err);
+            return [];
+          }
+        })
+      );
+      return { items: pages.flat(), next: end < manifests.length ? String(end) : null };
+    },
+  };
+};
@@ -0,0 +1,34 @@
+import type { MediaItem } from "~/src/infinite-canvas/types";
+import { DEFAULT_PAGE_SIZE, fetchJson, pageArray, parseMediaItems } from "./source";
+import type { CollectionSource } from "./source";
+
+// Cursors of chained documents carry the next document's url; plain arrays use offsets
+const URL_CURSOR = "url:";
+
+/**
+ * A JSON manifest at `url`: either an array of `MediaItem`s like the bundled `artworks/manifest.json`,
+ * fetched once and paged through in memory, or a chain of `{ items, next }` documents whose `next`
+ * (relative to the document) is only fetched when its page is asked for.
+ */
+export const createManifestSource = (url: string, pageSize = DEFAULT_PAGE_SIZE): CollectionSource => {
+  let array: MediaItem[] | null = null;
+
+  return {
+    id: `manifest:${url}`,
+    loadPage: async (cursor, signal) => {
+      if (array) return pageArray(array, cursor, pageSize);
+
+      const documentUrl = new URL(cursor?.startsWith(URL_CURSOR) ? cursor.slice(URL_CURSOR.length) : url, window.location.href);
+      const raw = await fetchJson(documentUrl.href, signal);
+
+      if (Array.isArray(raw)) {
+        array = parseMediaItems(raw);
+        return pageArray(array, null, pageSize);
+      }
+
+      const page = typeof raw === "object" && raw !== null ? (raw as { items?: unknown; next?: unknown }) : {};
+      const next = typeof page.next === "string" && page.next ? URL_CURSOR + new URL(page.next, documentUrl).href : null;
+      return { items: parseMediaItems(page.items), next };
+    },
+  };
+};
@@ -0,0 +1,53 @@
+import type { MediaItem } from "~/src/infinite-canvas/types";
+
+/** One page of a collection, plus where the next one starts. */
+export type CollectionPage<T = MediaItem> = {
+  items: T[];
+  /** Cursor for the following page; null once the collection is exhausted. */
+  next: string | null;
+};
+
+/**
+ * Somewhere media comes from. Pages are asked for one at a time, starting from a null cursor, so huge
+ * collections stream in as they're needed rather than being fetched up front.
+ */
+export type CollectionSource<T = MediaItem> = {
+  /** Identifies the source in error messages. */
+  id: string;
+  loadPage: (cursor: string | null, signal: AbortSignal) => Promise<CollectionPage<T>>;
+};
+
+export const DEFAULT_PAGE_SIZE = 200;
+
+/** Page through items already in memory; the cursor is the index of the next item. */
+export const pageArray = <T>(items: T[], cursor: string | null, pageSize: number): CollectionPage<T> => {
+  const start = Number(cursor ?? 0) || 0;
+  const end = start + pageSize;
+  return { items: items.slice(start, end), next: end < items.length ? String(end) : null };
+};
+
+export const fetchJson = async (url: string, signal: AbortSignal): Promise<unknown> => {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`${url}: ${response.status} ${response.statusText}`);
+  return response.json();
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Entries of a fetched manifest page that have what a plane needs (a url and positive dimensions);
+ * other `MediaItem` fields are passed through as they are.
+ */
+export const parseMediaItems = (raw: unknown): MediaItem[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(
+    (entry): entry is MediaItem =>
+      isRecord(entry) &&
+      typeof entry.url === "string" &&
+      typeof entry.width === "number" &&
+      typeof entry.height === "number" &&
+      entry.width > 0 &&
+      entry.height > 0
+  );
+};
@@ -0,0 +1,82 @@
+import * as React from "react";
+import type { MediaItem } from "~/src/infinite-canvas/types";
+import type { CollectionSource } from "./source";
+
+// Pages keep streaming in until this many items have arrived; `loadMore` continues after
+const AUTO_LOAD_ITEMS = 1000;
+
+/**
+ * Media from `sources`, kept in source order. The first page of every source is shown as soon as it
+ * arrives, and later pages are appended as they come in until `AUTO_LOAD_ITEMS` have arrived; past
+ * that only `loadMore` fetches more. `loading` is true until the first page. A source that fails is
+ * logged and skipped. `sources` is expected to be stable.
+ */
+export function useCollection(sources: CollectionSource[]) {
+  const [pages, setPages] = React.useState<MediaItem[][]>(() => sources.map(() => []));
+  const [loading, setLoading] = React.useState(true);
+  const [hasMore, setHasMore] = React.useState(false);
+  const loadMoreRef = React.useRef<(() => void) | null>(null);
+
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const cursors = sources.map((): string | null => null);
+    const done = sources.map(() => false);
+    const loaded = sources.map((): MediaItem[] => []);
+    let busy = false;
+
+    /** The next page of every source that has one, into `loaded`. */
+    const fetchRound = () =>
+      Promise.all(
+        sources.map(async (source, i) => {
+          if (done[i]) return;
+          try {
+            const page = await source.loadPage(cursors[i], controller.signal);
+            if (controller.signal.aborted) return;
+
+            cursors[i] = page.next;
+            done[i] = page.next === null;
+            loaded[i].push(...page.items);
+          } catch (err) {
+            if (controller.signal.aborted) return;
+            console.error(`Failed to load collection ${source.id}:`, err);
+            done[i] = true;
+          }
+        })
+      );
+
+    const commit = () => {
+      setPages(loaded.map((items) => [...items]));
+      setHasMore(done.includes(false));
+    };
+
+    const loadInitial = async () => {
+      busy = true;
+      do {
+        await fetchRound();
+        if (controller.signal.aborted) return;
+        commit();
+        setLoading(false);
+      } while (done.includes(false) && loaded.reduce((count, items) => count + items.length, 0) < AUTO_LOAD_ITEMS);
+      busy = false;
+    };
+
+    loadMoreRef.current = async () => {
+      if (busy) return;
+      busy = true;
+      await fetchRound();
+      busy = false;
+      if (!controller.signal.aborted) commit();
+    };
+    loadInitial();
+
+    return () => {
+      controller.abort();
+      loadMoreRef.current = null;
+    };
+  }, [sources]);
+
+  const loadMore = React.useCallback(() => loadMoreRef.current?.(), []);
+  const media = React.useMemo(() => pages.flat(), [pages]);
+
+  return { media, loading, hasMore, loadMore };
+}
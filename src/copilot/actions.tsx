@@ -1,8 +1,29 @@
 import { useCopilotAction } from "@copilotkit/react-core";
 import * as THREE from "three";
-import type { LayoutParams } from "~/src/infinite-canvas/types";
+import { ASPECT_FILTERS, describeQuery, filterMedia, isEmptyQuery, parseMetaFilter } from "~/src/infinite-canvas/media-query";
+import type { AspectFilter, MediaQuery } from "~/src/infinite-canvas/media-query";
+import type {
+  BackgroundStyle,
+  FocusEffectType,
+  LayoutMode,
+  LayoutParams,
+  MediaDistribution,
+  MediaItem,
+} from "~/src/infinite-canvas/types";
+import { createTour } from "~/src/tour/tour";
+import type { Tour } from "~/src/tour/tour";
+import { clamp } from "~/src/utils";
 import { useEffects } from "./effects-context";
-import type { FrameStyle, OverlayType } from "./effects-store";
+import { resolveEffectTarget } from "./effects-store";
+import type { EffectTarget, FrameStyle, OverlayType } from "./effects-store";
+
+const FOCUS_EFFECT_TYPES: FocusEffectType[] = ["fire", "cloud", "flowers"];
+const BACKGROUND_STYLES: BackgroundStyle[] = ["solid", "linear", "radial", "noise"];
+const LAYOUT_MODES: LayoutMode[] = ["random", "grid", "corridor", "wall", "spiral", "sphere"];
+const DISTRIBUTIONS: MediaDistribution[] = ["random", "balanced"];
+const FRAME_STYLES: FrameStyle[] = ["simple", "ornate", "double"];
+const OVERLAY_TYPES: OverlayType[] = ["sparkles", "stars", "dust"];
+const MAX_TOUR_STOPS = 20;
 
 /** Validate a color string with Three.js. Returns hex if valid, null if not. */
 function validateColor(raw: string): string | null {
@@ -33,50 +54,134 @@ function normalizeColor(raw: string, fallback = "#1a1a2e"): string {
   return fallback;
 }
 
+const TARGET_PARAMETERS = [
+  {
+    name: "target",
+    type: "string",
+    description:
+      "Which artworks to apply to: 'all' (default), 'focused' (only the artwork currently filling the view), or 'match' (artworks matching artist/title/url)",
+    required: false,
+  },
+  {
+    name: "artist",
+    type: "string",
+    description: "Only artworks whose artist contains this text (e.g. 'Monet')",
+    required: false,
+  },
+  { name: "title", type: "string", description: "Only artworks whose title contains this text", required: false },
+  { name: "url", type: "string", description: "Only artworks showing exactly this media url", required: false },
+] as const;
+
+/** Turn the loose target parameters an LLM sends into an EffectTarget. */
+function parseTarget({
+  target,
+  artist,
+  title,
+  url,
+}: {
+  target?: string;
+  artist?: string;
+  title?: string;
+  url?: string;
+}): EffectTarget {
+  const mode = target?.toLowerCase();
+  if (mode === "focused") return { kind: "focused" };
+  if (mode === "match" || artist || title || url) return { kind: "media", query: { artist, title, url } };
+  return { kind: "all" };
+}
+
 export function CopilotActions({
+  media,
   setSceneColors,
   setLayoutParams,
+  setFocusEffectType,
+  startTour,
+  query,
+  setQuery,
+  jumpToMedia,
 }: {
-  setSceneColors: (bg: string, fog: string) => void;
+  media: MediaItem[];
+  setSceneColors: (bg: string, fog: string, style?: BackgroundStyle) => void;
   setLayoutParams: React.Dispatch<React.SetStateAction<LayoutParams>>;
+  setFocusEffectType: (type: FocusEffectType) => void;
+  startTour: (tour: Tour) => void;
+  query: MediaQuery;
+  setQuery: (query: MediaQuery) => void;
+  jumpToMedia: (url: string) => boolean;
 }) {
   const { stateRef, notify } = useEffects();
 
   useCopilotAction({
     name: "addFrame",
-    description: "Add a decorative frame border around all artworks in the gallery",
+    description:
+      "Add a decorative frame border around artworks. Applies to all artworks by default; use target/artist/title to frame specific ones (e.g. only the Monet).",
     parameters: [
       { name: "style", type: "string", description: "Frame style: simple, ornate, or double", required: false },
       { name: "color", type: "string", description: "Frame color as CSS color string (e.g. 'gold', '#ff0000')", required: false },
       { name: "width", type: "number", description: "Frame border width (0.1 to 1.0)", required: false },
+      ...TARGET_PARAMETERS,
     ],
-    handler: ({ style, color, width }) => {
-      stateRef.current.frames.set("__default__", {
-        style: (style as FrameStyle) || "simple",
-        color: color || "gold",
-        width: Math.max(0.1, Math.min(1.0, width || 0.3)),
-      });
+    handler: ({ style, color, width, ...target }) => {
+      const { keys, description } = resolveEffectTarget(stateRef.current, parseTarget(target), media);
+      if (!keys.length) return `No frame added: found ${description}`;
+      for (const key of keys) {
+        stateRef.current.frames.set(key, {
+          style: FRAME_STYLES.find((s) => s === style?.toLowerCase()) ?? "simple",
+          color: color || "gold",
+          width: Math.max(0.1, Math.min(1.0, width || 0.3)),
+        });
+      }
       notify();
-      return "Frame added to all artworks";
+      return `Frame added to ${description}`;
+    },
+  });
+
+  useCopilotAction({
+    name: "removeFrame",
+    description: "Remove frames from artworks. Uses the same targeting as addFrame.",
+    parameters: [...TARGET_PARAMETERS],
+    handler: (target) => {
+      const { keys, description } = resolveEffectTarget(stateRef.current, parseTarget(target), media);
+      for (const key of keys) stateRef.current.frames.delete(key);
+      notify();
+      return `Frame removed from ${description}`;
     },
   });
 
   useCopilotAction({
     name: "addOverlay",
-    description: "Add a particle overlay effect around all artworks (sparkles, stars, or dust)",
+    description:
+      "Add a particle overlay effect (sparkles, stars, or dust) around artworks. Applies to all artworks by default; use target/artist/title for specific ones.",
     parameters: [
       { name: "type", type: "string", description: "Overlay type: sparkles, stars, or dust", required: false },
       { name: "density", type: "number", description: "Particle density (0.1 to 1.0)", required: false },
       { name: "color", type: "string", description: "Particle color as CSS color string", required: false },
+      ...TARGET_PARAMETERS,
     ],
-    handler: ({ type, density, color }) => {
-      stateRef.current.overlays.set("__default__", {
-        type: (type as OverlayType) || "sparkles",
-        density: Math.max(0.1, Math.min(1.0, density || 0.5)),
-        color: color || "#ffffff",
-      });
+    handler: ({ type, density, color, ...target }) => {
+      const { keys, description } = resolveEffectTarget(stateRef.current, parseTarget(target), media);
+      if (!keys.length) return `No overlay added: found ${description}`;
+      for (const key of keys) {
+        stateRef.current.overlays.set(key, {
+          type: OVERLAY_TYPES.find((t) => t === type?.toLowerCase()) ?? "sparkles",
+          density: Math.max(0.1, Math.min(1.0, density || 0.5)),
+          color: color || "#ffffff",
+        });
+      }
+      notify();
+      return `Overlay effect added to ${description}`;
+    },
+  });
+
+  useCopilotAction({
+    name: "removeOverlay",
+    description: "Remove particle overlays from artworks. Uses the same targeting as addOverlay.",
+    parameters: [...TARGET_PARAMETERS],
+    handler: (target) => {
+      const { keys, description } = resolveEffectTarget(stateRef.current, parseTarget(target), media);
+      for (const key of keys) stateRef.current.overlays.delete(key);
       notify();
-      return "Overlay effect added to all artworks";
+      return `Overlay removed from ${description}`;
     },
   });
 
@@ -97,12 +202,21 @@ export function CopilotActions({
         description: "Fog color as hex code like '#1a1a2e'. Defaults to background color.",
         required: false,
       },
+      {
+        name: "backgroundStyle",
+        type: "string",
+        description:
+          "'solid' fills with the focused artwork's color; 'linear' (vertical gradient), 'radial' and 'noise' (slowly drifting) are built from its palette. Omit to keep the current style.",
+        enum: BACKGROUND_STYLES,
+        required: false,
+      },
     ],
-    handler: ({ backgroundColor, fogColor }) => {
+    handler: ({ backgroundColor, fogColor, backgroundStyle }) => {
       const bg = normalizeColor(backgroundColor, "#1a1a2e");
       const fg = fogColor ? normalizeColor(fogColor, bg) : bg;
-      setSceneColors(bg, fg);
-      return `Scene colors changed to background: ${bg}, fog: ${fg}`;
+      const style = BACKGROUND_STYLES.find((s) => s === backgroundStyle);
+      setSceneColors(bg, fg, style);
+      return `Scene colors changed to background: ${bg}, fog: ${fg}${style ? `, style: ${style}` : ""}`;
     },
   });
 
@@ -122,6 +236,11 @@ Semantic guide for translating natural language:
 - "smaller/thumbnail" → decrease sizeMin and sizeMax
 - "orderly/organized/neat" → grid mode
 - "scattered/organic/natural" → random mode
+- "museum hallway/walk past the art" → corridor mode (corridorWidth 80-200 units, corridorAngle 30-80° — higher is more like real side walls)
+- "one big wall/mosaic/pinboard" → wall mode (wallColumns 1-6 masonry columns per chunk)
+- "helix/tunnel/vortex" → spiral mode (spiralRadius 20-150, spiralPitch 60-600 = Z distance per turn)
+- "planetarium/globe/surround me" → sphere mode (sphereRadius 60-300)
+- "no repeats/more variety/I keep seeing the same one" → distribution balanced, uniqueRadius 2-3
 
 Only set the parameters that need to change based on what the user asked. Leave others unchanged.`,
     parameters: [
@@ -147,13 +266,14 @@ Only set the parameters that need to change based on what the user asked. Leave
         name: "spacing",
         type: "number",
         description:
-          "Gap between artworks as a fraction (0=no gap/overlapping, 0.15=comfortable, 0.3=spacious, 0.5=maximum breathing room)",
+          "Minimum gap between artworks as a fraction of a chunk (0=edges may touch, 0.15=comfortable, 0.3=spacious, 0.5=maximum breathing room)",
         required: false,
       },
       {
         name: "mode",
         type: "string",
-        description: "Layout mode: 'grid' for orderly rows/columns (museum-like), 'random' for organic scattered placement",
+        description:
+          "Layout mode: 'grid' (orderly rows), 'random' (organic scatter), 'corridor' (two side walls along Z), 'wall' (flat masonry wall), 'spiral' (helix along Z), or 'sphere' (shell around the origin)",
         required: false,
       },
       {
@@ -163,16 +283,70 @@ Only set the parameters that need to change based on what the user asked. Leave
           "How much artworks vary in Z-depth (0=all on same plane/flat, 0.5=moderate 3D depth, 1.0=full 3D spread)",
         required: false,
       },
+      {
+        name: "distribution",
+        type: "string",
+        description:
+          "How artworks are assigned to positions: 'balanced' (every artwork shown equally, no nearby repeats) or 'random' (independent picks)",
+        required: false,
+      },
+      {
+        name: "uniqueRadius",
+        type: "number",
+        description: "With balanced distribution, no artwork repeats within this many chunks (0-3)",
+        required: false,
+      },
+      { name: "corridorWidth", type: "number", description: "corridor: distance between the walls (40-300)", required: false },
+      {
+        name: "corridorAngle",
+        type: "number",
+        description: "corridor: how far the walls turn away from facing the viewer, in degrees (30-80)",
+        required: false,
+      },
+      { name: "wallColumns", type: "number", description: "wall: masonry columns per chunk (1-6)", required: false },
+      { name: "spiralRadius", type: "number", description: "spiral: helix radius (20-150)", required: false },
+      { name: "spiralPitch", type: "number", description: "spiral: Z distance per full turn (60-600)", required: false },
+      { name: "sphereRadius", type: "number", description: "sphere: shell radius (60-300)", required: false },
     ],
-    handler: ({ itemsPerChunk, sizeMin, sizeMax, spacing, mode, depthSpread }) => {
+    handler: ({
+      itemsPerChunk,
+      sizeMin,
+      sizeMax,
+      spacing,
+      mode,
+      depthSpread,
+      distribution,
+      uniqueRadius,
+      corridorWidth,
+      corridorAngle,
+      wallColumns,
+      spiralRadius,
+      spiralPitch,
+      sphereRadius,
+    }) => {
+      const layoutMode = LAYOUT_MODES.find((m) => m === mode?.toLowerCase());
+      if (mode !== undefined && !layoutMode) return `Unknown layout mode "${mode}". Use one of: ${LAYOUT_MODES.join(", ")}`;
+      const mediaDistribution = DISTRIBUTIONS.find((d) => d === distribution?.toLowerCase());
+      if (distribution !== undefined && !mediaDistribution) {
+        return `Unknown distribution "${distribution}". Use one of: ${DISTRIBUTIONS.join(", ")}`;
+      }
+
       setLayoutParams((prev) => {
         const next = {
           itemsPerChunk: itemsPerChunk ?? prev.itemsPerChunk,
           sizeMin: sizeMin ?? prev.sizeMin,
           sizeMax: sizeMax ?? prev.sizeMax,
           spacing: spacing ?? prev.spacing,
-          mode: (mode as "random" | "grid") ?? prev.mode,
+          mode: layoutMode ?? prev.mode,
           depthSpread: depthSpread ?? prev.depthSpread,
+          distribution: mediaDistribution ?? prev.distribution,
+          uniqueRadius: uniqueRadius ?? prev.uniqueRadius,
+          corridorWidth: clamp(corridorWidth ?? prev.corridorWidth, 40, 300),
+          corridorAngle: clamp(corridorAngle ?? prev.corridorAngle, 30, 80),
+          wallColumns: Math.round(clamp(wallColumns ?? prev.wallColumns, 1, 6)),
+          spiralRadius: clamp(spiralRadius ?? prev.spiralRadius, 20, 150),
+          spiralPitch: clamp(spiralPitch ?? prev.spiralPitch, 60, 600),
+          sphereRadius: clamp(sphereRadius ?? prev.sphereRadius, 60, 300),
         };
         // Enforce constraints
         next.itemsPerChunk = Math.max(1, Math.min(15, next.itemsPerChunk));
@@ -180,6 +354,7 @@ Only set the parameters that need to change based on what the user asked. Leave
         next.sizeMax = Math.max(next.sizeMin, Math.min(50, next.sizeMax));
         next.spacing = Math.max(0, Math.min(0.5, next.spacing));
         next.depthSpread = Math.max(0, Math.min(1, next.depthSpread));
+        next.uniqueRadius = Math.round(Math.max(0, Math.min(3, next.uniqueRadius)));
         return next;
       });
       const changes: string[] = [];
@@ -188,10 +363,129 @@ Only set the parameters that need to change based on what the user asked. Leave
       if (sizeMin !== undefined || sizeMax !== undefined) changes.push(`size range: ${sizeMin ?? "unchanged"}-${sizeMax ?? "unchanged"}`);
       if (spacing !== undefined) changes.push(`spacing: ${(spacing * 100).toFixed(0)}%`);
       if (depthSpread !== undefined) changes.push(`depth: ${(depthSpread * 100).toFixed(0)}%`);
+      if (distribution !== undefined) changes.push(`distribution: ${distribution}`);
+      if (uniqueRadius !== undefined) changes.push(`no repeats within ${uniqueRadius} chunks`);
+      if (corridorWidth !== undefined) changes.push(`corridor width: ${corridorWidth}`);
+      if (corridorAngle !== undefined) changes.push(`corridor angle: ${corridorAngle}°`);
+      if (wallColumns !== undefined) changes.push(`wall columns: ${wallColumns}`);
+      if (spiralRadius !== undefined) changes.push(`spiral radius: ${spiralRadius}`);
+      if (spiralPitch !== undefined) changes.push(`spiral pitch: ${spiralPitch}`);
+      if (sphereRadius !== undefined) changes.push(`sphere radius: ${sphereRadius}`);
       return `Layout updated: ${changes.join(", ")}`;
     },
   });
 
+  useCopilotAction({
+    name: "setFocusEffect",
+    description: `Change the particle effect that appears around the artwork in focus. The particles are tinted from the focused artwork's dominant color.
+
+Semantic guide:
+- "fiery/energetic/emoji" → fire (rising emojis matching the artwork's colors)
+- "dreamy/soft/calm/sky" → cloud (slowly drifting clouds)
+- "romantic/spring/garden/petals" → flowers (falling petals)`,
+    parameters: [{ name: "effectType", type: "string", description: "Focus effect: fire, cloud, or flowers", required: true }],
+    handler: ({ effectType }) => {
+      const type = FOCUS_EFFECT_TYPES.find((t) => t === effectType?.toLowerCase());
+      if (!type) {
+        return `Unknown focus effect "${effectType}". Use one of: ${FOCUS_EFFECT_TYPES.join(", ")}`;
+      }
+      setFocusEffectType(type);
+      return `Focus effect changed to ${type}`;
+    },
+  });
+
+  useCopilotAction({
+    name: "createTour",
+    description: `Start a guided tour that flies the camera from artwork to artwork, pausing on each with a caption.
+Pick the artworks either by listing their urls, or by filtering on artist, title, or dominant color (e.g. "show me all the blue paintings" → color: "blue").
+Colors: red, pink, orange, yellow, green, blue, purple, brown, black, white, grey.`,
+    parameters: [
+      { name: "title", type: "string", description: "Short tour title shown in the player", required: true },
+      { name: "urls", type: "string[]", description: "Artwork urls to visit, in order", required: false },
+      { name: "artist", type: "string", description: "Only artworks whose artist contains this text", required: false },
+      { name: "titleContains", type: "string", description: "Only artworks whose title contains this text", required: false },
+      { name: "color", type: "string", description: "Only artworks whose dominant color is in this family", required: false },
+      { name: "secondsPerStop", type: "number", description: "Pause on each artwork, in seconds (default 6)", required: false },
+    ],
+    handler: ({ title, urls, artist, titleContains, color, secondsPerStop }) => {
+      // Only what's on the canvas can be flown to
+      const visible = filterMedia(media, query);
+      const items = urls?.length
+        ? urls.flatMap((url) => visible.filter((m) => m.url === url))
+        : filterMedia(visible, { artist, title: titleContains, color });
+      if (!items.length) {
+        return isEmptyQuery(query) ? "No artworks match that tour" : "No artworks in the current filter match that tour";
+      }
+
+      const durationMs = secondsPerStop ? Math.max(2, Math.min(30, secondsPerStop)) * 1000 : undefined;
+      startTour(createTour(title, items.slice(0, MAX_TOUR_STOPS), durationMs));
+      return `Tour "${title}" started with ${Math.min(items.length, MAX_TOUR_STOPS)} stops`;
+    },
+  });
+
+  useCopilotAction({
+    name: "filterCollection",
+    description: `Narrow the artworks shown in the gallery to those matching every given criterion. Replaces any previous filter.
+e.g. "only show Van Gogh" → artist: "Van Gogh"; "paintings from the 1870s" → yearMin: 1870, yearMax: 1879; "just the wide ones" → aspect: "landscape".
+Colors: red, pink, orange, yellow, green, blue, purple, brown, black, white, grey.
+Uploaded photos also carry metadata (see the uploads readable), e.g. "photos from my iPhone" → meta: "camera: iPhone".`,
+    parameters: [
+      { name: "text", type: "string", description: "Free text matched against title or artist", required: false },
+      { name: "artist", type: "string", description: "Artist name contains this text", required: false },
+      { name: "title", type: "string", description: "Title contains this text", required: false },
+      { name: "yearMin", type: "number", description: "Earliest year, inclusive", required: false },
+      { name: "yearMax", type: "number", description: "Latest year, inclusive", required: false },
+      { name: "aspect", type: "string", description: "Shape: landscape, portrait, or square", required: false },
+      { name: "color", type: "string", description: "Dominant color family", required: false },
+      {
+        name: "meta",
+        type: "string",
+        description: "Metadata fields that must contain the given text, as 'key: value' pairs separated by semicolons",
+        required: false,
+      },
+    ],
+    handler: ({ text, artist, title, yearMin, yearMax, aspect, color, meta }) => {
+      const shape = aspect?.toLowerCase() as AspectFilter | undefined;
+      if (shape && !ASPECT_FILTERS.includes(shape)) return `Unknown aspect "${aspect}". Use: ${ASPECT_FILTERS.join(", ")}`;
+
+      const next: MediaQuery = { text, artist, title, yearMin, yearMax, aspect: shape, color, meta: parseMetaFilter(meta) };
+      const count = filterMedia(media, next).length;
+      setQuery(next);
+      return count
+        ? `Showing ${count} of ${media.length} artworks matching ${describeQuery(next)}`
+        : `No artworks match ${describeQuery(next)}; the gallery is empty until the filter is cleared`;
+    },
+  });
+
+  useCopilotAction({
+    name: "clearCollectionFilter",
+    description: "Remove the search filter and show the whole collection again",
+    parameters: [],
+    handler: () => {
+      setQuery({});
+      return `Showing all ${media.length} artworks`;
+    },
+  });
+
+  useCopilotAction({
+    name: "jumpToArtwork",
+    description:
+      "Fly the camera to the nearest copy of an artwork and show its details. Identify it by url, or by artist/title text. Only artworks passing the current filter can be reached.",
+    parameters: [
+      { name: "url", type: "string", description: "Exact media url of the artwork", required: false },
+      { name: "artist", type: "string", description: "Artist name contains this text", required: false },
+      { name: "title", type: "string", description: "Title contains this text", required: false },
+    ],
+    handler: ({ url, artist, title }) => {
+      if (!url && !artist && !title) return "Say which artwork to jump to";
+      const [item] = filterMedia(filterMedia(media, query), { url, artist, title });
+      if (!item) return "No visible artwork matches that; it may be hidden by the current filter";
+      return jumpToMedia(item.url)
+        ? `Flying to ${item.title ?? item.url}`
+        : `${item.title ?? item.url} is not placed near the camera`;
+    },
+  });
+
   useCopilotAction({
     name: "clearAllEffects",
     description: "Remove all visual effects (frames, overlays) and reset scene colors to white",
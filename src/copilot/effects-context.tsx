@@ -10,8 +10,8 @@ type EffectsContextValue = {
 
 const EffectsContext = React.createContext<EffectsContextValue | null>(null);
 
-export function EffectsProvider({ children }: { children: React.ReactNode }) {
-  const stateRef = React.useRef(createEffectsState());
+export function EffectsProvider({ children, initialState }: { children: React.ReactNode; initialState?: EffectsState }) {
+  const stateRef = React.useRef(initialState ?? createEffectsState());
   const [revision, setRevision] = React.useState(0);
 
   const notify = React.useCallback(() => {
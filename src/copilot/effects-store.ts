@@ -1,3 +1,7 @@
+import { filterMedia, isEmptyQuery } from "~/src/infinite-canvas/media-query";
+import type { MediaQuery } from "~/src/infinite-canvas/media-query";
+import type { MediaItem } from "~/src/infinite-canvas/types";
+
 export type FrameStyle = "simple" | "ornate" | "double";
 
 export type PlaneFrame = {
@@ -14,16 +18,68 @@ export type PlaneOverlay = {
   color: string;
 };
 
+export type FocusedArtwork = {
+  planeId: string;
+  url: string;
+};
+
 export type EffectsState = {
   frames: Map<string, PlaneFrame>;
   overlays: Map<string, PlaneOverlay>;
+  /** Artwork currently filling the view, written by the scene every few frames. */
+  focused: FocusedArtwork | null;
   revision: number;
 };
 
+/**
+ * Effect maps are keyed by one of:
+ * - a plane id, for a single placed artwork
+ * - `media:<url>`, for every plane showing that media item
+ * - `__default__`, for all artworks
+ */
+export const DEFAULT_EFFECT_KEY = "__default__";
+
+export const mediaEffectKey = (url: string): string => `media:${url}`;
+
+export type EffectTarget = { kind: "all" } | { kind: "focused" } | { kind: "media"; query: MediaQuery };
+
+export type ResolvedTarget = {
+  keys: string[];
+  description: string;
+};
+
 export function createEffectsState(): EffectsState {
   return {
     frames: new Map(),
     overlays: new Map(),
+    focused: null,
     revision: 0,
   };
 }
+
+/** Most specific effect for a plane: plane id, then media url, then the default. */
+export function lookupEffect<T>(map: Map<string, T>, planeId: string, url: string): T | null {
+  return map.get(planeId) ?? map.get(mediaEffectKey(url)) ?? map.get(DEFAULT_EFFECT_KEY) ?? null;
+}
+
+export function resolveEffectTarget(state: EffectsState, target: EffectTarget, media: MediaItem[]): ResolvedTarget {
+  switch (target.kind) {
+    case "all":
+      return { keys: [DEFAULT_EFFECT_KEY], description: "all artworks" };
+    case "focused": {
+      const focused = state.focused;
+      if (!focused) return { keys: [], description: "the focused artwork" };
+      const item = media.find((m) => m.url === focused.url);
+      return { keys: [focused.planeId], description: item?.title ? `"${item.title}"` : "the focused artwork" };
+    }
+    case "media": {
+      if (isEmptyQuery(target.query)) return { keys: [], description: "no artworks" };
+      const urls = new Set(filterMedia(media, target.query).map((m) => m.url));
+      const count = urls.size;
+      return {
+        keys: [...urls].map(mediaEffectKey),
+        description: `${count} matching artwork${count === 1 ? "" : "s"}`,
+      };
+    }
+  }
+}
@@ -1,20 +1,30 @@
 import { useCopilotReadable } from "@copilotkit/react-core";
 import * as React from "react";
-import type { LayoutParams, MediaItem } from "~/src/infinite-canvas/types";
+import { describeQuery, isEmptyQuery } from "~/src/infinite-canvas/media-query";
+import type { MediaQuery } from "~/src/infinite-canvas/media-query";
+import type { FocusEffectType, LayoutParams, MediaItem } from "~/src/infinite-canvas/types";
 import { useEffects } from "./effects-context";
+import { DEFAULT_EFFECT_KEY } from "./effects-store";
 
 export function CopilotReadables({
   media,
+  visibleMedia,
+  query,
   layoutParams,
+  focusEffectType,
 }: {
   media: MediaItem[];
+  visibleMedia: MediaItem[];
+  query: MediaQuery;
   layoutParams: LayoutParams;
+  focusEffectType: FocusEffectType;
 }) {
   const { stateRef, revision } = useEffects();
 
   const artworkSummary = React.useMemo(
     () =>
       media.slice(0, 20).map((m) => ({
+        url: m.url,
         title: m.title ?? "Untitled",
         artist: m.artist ?? "Unknown",
         year: m.year ?? "Unknown",
@@ -23,13 +33,33 @@ export function CopilotReadables({
     [media],
   );
 
+  // Uploads come after the manifest, so they would rarely make the first 20 above
+  const uploadSummary = React.useMemo(
+    () =>
+      media
+        .filter((m) => m.uploadId)
+        .slice(0, 50)
+        .map((m) => ({
+          url: m.url,
+          title: m.title ?? "Untitled",
+          artist: m.artist ?? "Unknown",
+          year: m.year ?? "Unknown",
+          meta: m.meta ?? {},
+        })),
+    [media]
+  );
+
   const effectsSummary = React.useMemo(() => {
     const s = stateRef.current;
+    const targeted = <T,>(map: Map<string, T>) =>
+      [...map.entries()].filter(([key]) => key !== DEFAULT_EFFECT_KEY).map(([target, value]) => ({ target, ...value }));
     return {
       framesCount: s.frames.size,
       overlaysCount: s.overlays.size,
-      defaultFrame: s.frames.get("__default__") ?? null,
-      defaultOverlay: s.overlays.get("__default__") ?? null,
+      defaultFrame: s.frames.get(DEFAULT_EFFECT_KEY) ?? null,
+      defaultOverlay: s.overlays.get(DEFAULT_EFFECT_KEY) ?? null,
+      targetedFrames: targeted(s.frames),
+      targetedOverlays: targeted(s.overlays),
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [revision]);
@@ -41,12 +71,31 @@ export function CopilotReadables({
 
   useCopilotReadable({
     description:
-      "Current layout parameters controlling artwork arrangement. mode: 'random' (organic scatter) or 'grid' (orderly rows). itemsPerChunk: density (1-15). sizeMin/sizeMax: artwork display size range. spacing: gap between artworks (0-0.5). depthSpread: Z-depth variation (0=flat, 1=full 3D).",
+      "The user's own uploaded photos and videos (first 50), with metadata read from their EXIF / XMP: capturedAt (ISO date), camera, lens, latitude, longitude, description, keywords, copyright. filterCollection can filter on any meta key.",
+    value: uploadSummary,
+  });
+
+  useCopilotReadable({
+    description: "Search filter narrowing which artworks are shown in the gallery",
+    value: isEmptyQuery(query)
+      ? { active: false, showing: media.length }
+      : { active: true, matching: describeQuery(query), showing: visibleMedia.length, total: media.length },
+  });
+
+  useCopilotReadable({
+    description:
+      "Current layout parameters controlling artwork arrangement. mode: 'random' (organic scatter), 'grid' (orderly rows), 'corridor' (side walls, see corridorWidth/corridorAngle), 'wall' (flat masonry, wallColumns), 'spiral' (helix, spiralRadius/spiralPitch) or 'sphere' (shell, sphereRadius). itemsPerChunk: density (1-15). sizeMin/sizeMax: artwork display size range. spacing: minimum gap between artworks, which never overlap (0-0.5). depthSpread: Z-depth variation (0=flat, 1=full 3D). distribution: 'balanced' (even coverage, no repeats within uniqueRadius chunks) or 'random'.",
     value: layoutParams,
   });
 
   useCopilotReadable({
-    description: "Currently applied visual effects (frames, overlays)",
+    description: "Particle effect shown around the artwork in focus: 'fire', 'cloud', or 'flowers'",
+    value: focusEffectType,
+  });
+
+  useCopilotReadable({
+    description:
+      "Currently applied visual effects (frames, overlays). Targeted entries apply to a single plane (plane id) or to every plane showing a media item ('media:<url>') and take precedence over the defaults.",
     value: effectsSummary,
   });
 
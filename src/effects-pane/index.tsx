@@ -0,0 +1,149 @@
+import * as React from "react";
+import { useEffects } from "~/src/copilot/effects-context";
+import { resolveEffectTarget } from "~/src/copilot/effects-store";
+import type { EffectTarget, FrameStyle, OverlayType } from "~/src/copilot/effects-store";
+import type { MediaItem } from "~/src/infinite-canvas/types";
+import styles from "./style.module.css";
+
+type TargetMode = "all" | "focused" | "match";
+
+export function EffectsPane({ media }: { media: MediaItem[] }) {
+  const { stateRef, notify } = useEffects();
+  const [open, setOpen] = React.useState(false);
+  const [targetMode, setTargetMode] = React.useState<TargetMode>("all");
+  const [matchText, setMatchText] = React.useState("");
+  const [frameStyle, setFrameStyle] = React.useState<FrameStyle>("simple");
+  const [frameColor, setFrameColor] = React.useState("#d4af37");
+  const [overlayType, setOverlayType] = React.useState<OverlayType>("sparkles");
+  const [overlayColor, setOverlayColor] = React.useState("#ffffff");
+  const [status, setStatus] = React.useState("");
+
+  const resolve = () => {
+    const target: EffectTarget =
+      targetMode === "match"
+        ? { kind: "media", query: matchText.startsWith("/") ? { url: matchText } : { artist: matchText } }
+        : { kind: targetMode };
+    const resolved = resolveEffectTarget(stateRef.current, target, media);
+    // Fall back to matching titles when nothing matches the artist
+    if (targetMode === "match" && !resolved.keys.length && !matchText.startsWith("/")) {
+      return resolveEffectTarget(stateRef.current, { kind: "media", query: { title: matchText } }, media);
+    }
+    return resolved;
+  };
+
+  const apply = (kind: "frame" | "overlay", remove: boolean) => {
+    const { keys, description } = resolve();
+    if (!keys.length) {
+      setStatus(`Nothing to update: found ${description}`);
+      return;
+    }
+    for (const key of keys) {
+      if (kind === "frame") {
+        if (remove) stateRef.current.frames.delete(key);
+        else stateRef.current.frames.set(key, { style: frameStyle, color: frameColor, width: 0.3 });
+      } else if (remove) {
+        stateRef.current.overlays.delete(key);
+      } else {
+        stateRef.current.overlays.set(key, { type: overlayType, density: 0.5, color: overlayColor });
+      }
+    }
+    notify();
+    setStatus(`${remove ? "Removed" : "Applied"} ${kind} ${remove ? "from" : "to"} ${description}`);
+  };
+
+  return (
+    <div className={styles.pane}>
+      <button className={styles.toggle} onClick={() => setOpen((v) => !v)} type="button" aria-label="Toggle effect controls">
+        {open ? "✕" : "▣"}
+      </button>
+
+      {open && (
+        <div className={styles.controls}>
+          <label className={styles.label}>
+            Target
+            <select className={styles.select} value={targetMode} onChange={(e) => setTargetMode(e.target.value as TargetMode)}>
+              <option value="all">All artworks</option>
+              <option value="focused">Artwork in focus</option>
+              <option value="match">Artist or title</option>
+            </select>
+          </label>
+
+          {targetMode === "match" && (
+            <input
+              className={styles.input}
+              type="text"
+              value={matchText}
+              placeholder="e.g. Monet"
+              aria-label="Artist or title to match"
+              onChange={(e) => setMatchText(e.target.value)}
+            />
+          )}
+
+          <div className={styles.section}>
+            <span className={styles.label}>Frame</span>
+            <div className={styles.row}>
+              <select
+                className={styles.select}
+                value={frameStyle}
+                aria-label="Frame style"
+                onChange={(e) => setFrameStyle(e.target.value as FrameStyle)}
+              >
+                <option value="simple">Simple</option>
+                <option value="ornate">Ornate</option>
+                <option value="double">Double</option>
+              </select>
+              <input
+                className={styles.color}
+                type="color"
+                value={frameColor}
+                aria-label="Frame color"
+                onChange={(e) => setFrameColor(e.target.value)}
+              />
+            </div>
+            <div className={styles.row}>
+              <button className={styles.button} type="button" onClick={() => apply("frame", false)}>
+                Apply
+              </button>
+              <button className={styles.button} type="button" onClick={() => apply("frame", true)}>
+                Remove
+              </button>
+            </div>
+          </div>
+
+          <div className={styles.section}>
+            <span className={styles.label}>Overlay</span>
+            <div className={styles.row}>
+              <select
+                className={styles.select}
+                value={overlayType}
+                aria-label="Overlay type"
+                onChange={(e) => setOverlayType(e.target.value as OverlayType)}
+              >
+                <option value="sparkles">Sparkles</option>
+                <option value="stars">Stars</option>
+                <option value="dust">Dust</option>
+              </select>
+              <input
+                className={styles.color}
+                type="color"
+                value={overlayColor}
+                aria-label="Overlay color"
+                onChange={(e) => setOverlayColor(e.target.value)}
+              />
+            </div>
+            <div className={styles.row}>
+              <button className={styles.button} type="button" onClick={() => apply("overlay", false)}>
+                Apply
+              </button>
+              <button className={styles.button} type="button" onClick={() => apply("overlay", true)}>
+                Remove
+              </button>
+            </div>
+          </div>
+
+          {status && <div className={styles.status}>{status}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,38 +1,21 @@
 import * as React from "react";
-import type { MediaItem } from "~/src/infinite-canvas/types";
 import styles from "./style.module.css";
 
-function loadImageDimensions(
-  url: string
-): Promise<{ width: number; height: number }> {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
-    img.onerror = reject;
-    img.src = url;
-  });
-}
-
-export function Frame({ onUpload }: { onUpload?: (items: MediaItem[]) => void }) {
+export function Frame({ onUpload }: { onUpload?: (files: File[]) => void }) {
   const inputRef = React.useRef<HTMLInputElement>(null);
+  const folderInputRef = React.useRef<HTMLInputElement>(null);
+
+  // Not in React's attribute types; picks a folder and returns every file under it
+  React.useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
 
   const handleChange = React.useCallback(
-    async (e: React.ChangeEvent<HTMLInputElement>) => {
+    (e: React.ChangeEvent<HTMLInputElement>) => {
       const files = e.target.files;
       if (!files?.length || !onUpload) return;
-      const items: MediaItem[] = [];
-      for (let i = 0; i < files.length; i++) {
-        const file = files[i];
-        if (!file.type.startsWith("image/")) continue;
-        const url = URL.createObjectURL(file);
-        try {
-          const { width, height } = await loadImageDimensions(url);
-          items.push({ url, width, height });
-        } catch {
-          URL.revokeObjectURL(url);
-        }
-      }
-      if (items.length) onUpload(items);
+      // Hidden files (.DS_Store and the like) come along with folders
+      onUpload(Array.from(files).filter((file) => !file.name.startsWith(".")));
       e.target.value = "";
     },
     [onUpload]
@@ -56,10 +39,17 @@ export function Frame({ onUpload }: { onUpload?: (items: MediaItem[]) => void })
           <input
             ref={inputRef}
             type="file"
-            accept="image/*"
+            accept="image/*,video/mp4,video/webm"
             multiple
             className={styles.frame__fileInput}
-            aria-label="Upload images"
+            aria-label="Upload images and videos"
+            onChange={handleChange}
+          />
+          <input
+            ref={folderInputRef}
+            type="file"
+            className={styles.frame__fileInput}
+            aria-label="Upload a folder"
             onChange={handleChange}
           />
           <button
@@ -69,6 +59,9 @@ export function Frame({ onUpload }: { onUpload?: (items: MediaItem[]) => void })
           >
             Upload
           </button>
+          <button type="button" className={styles.frame__upload} onClick={() => folderInputRef.current?.click()}>
+            Folder
+          </button>
         </div>
       )}
 
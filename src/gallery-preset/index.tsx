@@ -0,0 +1,113 @@
+import * as React from "react";
+import { useEffects } from "~/src/copilot/effects-context";
+import type { CanvasController, FocusEffectType, LayoutParams } from "~/src/infinite-canvas/types";
+import { createPreset, decodePresetHash, downloadPreset, effectsFromPreset, encodePresetHash, parsePresetJson } from "./preset";
+import type { GalleryPreset, PresetResult, SceneColors } from "./preset";
+import styles from "./style.module.css";
+
+export function SharePane({
+  layoutParams,
+  sceneColors,
+  focusEffectType,
+  onApply,
+  controllerRef,
+}: {
+  layoutParams: LayoutParams;
+  sceneColors: SceneColors;
+  focusEffectType: FocusEffectType;
+  onApply: (preset: GalleryPreset) => void;
+  controllerRef: React.RefObject<CanvasController | null>;
+}) {
+  const { stateRef, notify } = useEffects();
+  const [open, setOpen] = React.useState(false);
+  const [status, setStatus] = React.useState("");
+  const fileRef = React.useRef<HTMLInputElement>(null);
+
+  const buildPreset = () =>
+    createPreset({
+      layout: layoutParams,
+      sceneColors,
+      focusEffectType,
+      effects: stateRef.current,
+      camera: controllerRef.current?.getCameraPosition() ?? null,
+    });
+
+  const apply = React.useCallback(
+    (result: PresetResult) => {
+      if (!result.ok) {
+        setStatus(result.error);
+        return;
+      }
+
+      const { preset } = result;
+      const effects = effectsFromPreset(preset);
+      stateRef.current.frames = effects.frames;
+      stateRef.current.overlays = effects.overlays;
+      notify();
+      onApply(preset);
+      if (preset.camera) controllerRef.current?.setCameraPosition(preset.camera);
+      setStatus("Preset loaded");
+    },
+    [stateRef, notify, onApply, controllerRef]
+  );
+
+  // Links pasted into an already-open tab only change the hash
+  React.useEffect(() => {
+    const onHashChange = () => {
+      const result = decodePresetHash(window.location.hash);
+      if (result) apply(result);
+    };
+
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
+  }, [apply]);
+
+  const copyLink = async () => {
+    const hash = encodePresetHash(buildPreset());
+    window.history.replaceState(null, "", hash);
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setStatus("Link copied to clipboard");
+    } catch {
+      setStatus("Link saved in the address bar");
+    }
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    apply(parsePresetJson(await file.text()));
+  };
+
+  return (
+    <div className={styles.pane}>
+      <button className={styles.toggle} onClick={() => setOpen((v) => !v)} type="button" aria-label="Toggle share controls">
+        {open ? "✕" : "⇪"}
+      </button>
+
+      {open && (
+        <div className={styles.controls}>
+          <button className={styles.button} type="button" onClick={copyLink}>
+            Copy share link
+          </button>
+          <button className={styles.button} type="button" onClick={() => downloadPreset(buildPreset())}>
+            Export JSON
+          </button>
+          <button className={styles.button} type="button" onClick={() => fileRef.current?.click()}>
+            Import JSON
+          </button>
+          <input
+            ref={fileRef}
+            className={styles.fileInput}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Import preset file"
+            onChange={importFile}
+          />
+          {status && <div className={styles.status}>{status}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+import { createEffectsState } from "~/src/copilot/effects-store";
+import type { EffectsState, FrameStyle, OverlayType, PlaneFrame, PlaneOverlay } from "~/src/copilot/effects-store";
+import { DEFAULT_LAYOUT_PARAMS } from "~/src/infinite-canvas/types";
+import type {
+  BackgroundStyle,
+  CameraPosition,
+  FocusEffectType,
+  LayoutMode,
+  LayoutParams,
+  MediaDistribution,
+} from "~/src/infinite-canvas/types";
+import { clamp } from "~/src/utils";
+
+export const PRESET_VERSION = 1;
+
+const HASH_KEY = "preset";
+
+export type SceneColors = { backgroundColor: string; fogColor: string; backgroundStyle: BackgroundStyle };
+
+/** Everything needed to reproduce a tuned gallery, in a JSON-safe shape. */
+export type GalleryPreset = {
+  version: number;
+  layout: LayoutParams;
+  sceneColors: SceneColors;
+  focusEffectType: FocusEffectType;
+  effects: {
+    frames: [string, PlaneFrame][];
+    overlays: [string, PlaneOverlay][];
+  };
+  camera: CameraPosition | null;
+};
+
+export type PresetResult = { ok: true; preset: GalleryPreset } | { ok: false; error: string };
+
+const LAYOUT_MODES: LayoutMode[] = ["random", "grid", "corridor", "wall", "spiral", "sphere"];
+const DISTRIBUTIONS: MediaDistribution[] = ["random", "balanced"];
+const FOCUS_EFFECT_TYPES: FocusEffectType[] = ["fire", "cloud", "flowers"];
+const BACKGROUND_STYLES: BackgroundStyle[] = ["solid", "linear", "radial", "noise"];
+const FRAME_STYLES: FrameStyle[] = ["simple", "ornate", "double"];
+const OVERLAY_TYPES: OverlayType[] = ["sparkles", "stars", "dust"];
+const HEX_COLOR = /^#[0-9a-f]{3}([0-9a-f]{3})?$/i;
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+const num = (v: unknown, fallback: number, min: number, max: number): number =>
+  typeof v === "number" && Number.isFinite(v) ? clamp(v, min, max) : fallback;
+
+const oneOf = <T extends string>(v: unknown, options: T[], fallback: T): T => options.find((o) => o === v) ?? fallback;
+
+const color = (v: unknown, fallback: string): string => (typeof v === "string" && HEX_COLOR.test(v) ? v : fallback);
+
+const validateLayout = (raw: unknown): LayoutParams => {
+  const l = isRecord(raw) ? raw : {};
+  const d = DEFAULT_LAYOUT_PARAMS;
+  const sizeMin = num(l.sizeMin, d.sizeMin, 4, 30);
+  return {
+    itemsPerChunk: Math.round(num(l.itemsPerChunk, d.itemsPerChunk, 1, 15)),
+    sizeMin,
+    sizeMax: num(l.sizeMax, d.sizeMax, sizeMin, 50),
+    spacing: num(l.spacing, d.spacing, 0, 0.5),
+    mode: oneOf(l.mode, LAYOUT_MODES, d.mode),
+    depthSpread: num(l.depthSpread, d.depthSpread, 0, 1),
+    distribution: oneOf(l.distribution, DISTRIBUTIONS, d.distribution),
+    uniqueRadius: Math.round(num(l.uniqueRadius, d.uniqueRadius, 0, 3)),
+    corridorWidth: num(l.corridorWidth, d.corridorWidth, 40, 300),
+    corridorAngle: num(l.corridorAngle, d.corridorAngle, 30, 80),
+    wallColumns: Math.round(num(l.wallColumns, d.wallColumns, 1, 6)),
+    spiralRadius: num(l.spiralRadius, d.spiralRadius, 20, 150),
+    spiralPitch: num(l.spiralPitch, d.spiralPitch, 60, 600),
+    sphereRadius: num(l.sphereRadius, d.sphereRadius, 60, 300),
+  };
+};
+
+const validateEntries = <T>(raw: unknown, parse: (v: Record<string, unknown>) => T): [string, T][] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry): [string, T][] => {
+    if (!Array.isArray(entry) || typeof entry[0] !== "string" || !isRecord(entry[1])) return [];
+    return [[entry[0], parse(entry[1])]];
+  });
+};
+
+const validateCamera = (raw: unknown): CameraPosition | null => {
+  if (!isRecord(raw)) return null;
+  const { x, y, z } = raw;
+  if (![x, y, z].every((v) => typeof v === "number" && Number.isFinite(v))) return null;
+  return { x: x as number, y: y as number, z: z as number };
+};
+
+/** Check an untrusted object (file or URL) and fill in defaults for missing fields. */
+export const validatePreset = (raw: unknown): PresetResult => {
+  if (!isRecord(raw)) {
+    return { ok: false, error: "Preset must be a JSON object" };
+  }
+  if (typeof raw.version !== "number" || !Number.isInteger(raw.version) || raw.version < 1) {
+    return { ok: false, error: "Preset is missing a valid version number" };
+  }
+  if (raw.version > PRESET_VERSION) {
+    return { ok: false, error: `Preset version ${raw.version} is newer than supported version ${PRESET_VERSION}` };
+  }
+
+  const colors = isRecord(raw.sceneColors) ? raw.sceneColors : {};
+  const backgroundColor = color(colors.backgroundColor, "#ffffff");
+  const effects = isRecord(raw.effects) ? raw.effects : {};
+
+  return {
+    ok: true,
+    preset: {
+      version: PRESET_VERSION,
+      layout: validateLayout(raw.layout),
+      sceneColors: {
+        backgroundColor,
+        fogColor: color(colors.fogColor, backgroundColor),
+        backgroundStyle: oneOf(colors.backgroundStyle, BACKGROUND_STYLES, "solid"),
+      },
+      focusEffectType: oneOf(raw.focusEffectType, FOCUS_EFFECT_TYPES, "fire"),
+      effects: {
+        frames: validateEntries(effects.frames, (f) => ({
+          style: oneOf(f.style, FRAME_STYLES, "simple"),
+          color: color(f.color, "gold"),
+          width: num(f.width, 0.3, 0.1, 1),
+        })),
+        overlays: validateEntries(effects.overlays, (o) => ({
+          type: oneOf(o.type, OVERLAY_TYPES, "sparkles"),
+          density: num(o.density, 0.5, 0.1, 1),
+          color: color(o.color, "#ffffff"),
+        })),
+      },
+      camera: validateCamera(raw.camera),
+    },
+  };
+};
+
+export const createPreset = ({
+  layout,
+  sceneColors,
+  focusEffectType,
+  effects,
+  camera,
+}: {
+  layout: LayoutParams;
+  sceneColors: SceneColors;
+  focusEffectType: FocusEffectType;
+  effects: EffectsState;
+  camera: CameraPosition | null;
+}): GalleryPreset => ({
+  version: PRESET_VERSION,
+  layout,
+  sceneColors,
+  focusEffectType,
+  effects: { frames: [...effects.frames.entries()], overlays: [...effects.overlays.entries()] },
+  camera,
+});
+
+export const effectsFromPreset = (preset: GalleryPreset): EffectsState => {
+  const state = createEffectsState();
+  for (const [key, frame] of preset.effects.frames) state.frames.set(key, frame);
+  for (const [key, overlay] of preset.effects.overlays) state.overlays.set(key, overlay);
+  return state;
+};
+
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = "";
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const binary = atob(encoded.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(Uint8Array.from(binary, (c) => c.charCodeAt(0)));
+};
+
+export const encodePresetHash = (preset: GalleryPreset): string => `#${HASH_KEY}=${toBase64Url(JSON.stringify(preset))}`;
+
+/** Read a preset from a location hash; null when the hash holds no preset. */
+export const decodePresetHash = (hash: string): PresetResult | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, "")).get(HASH_KEY);
+  if (!encoded) return null;
+
+  try {
+    return validatePreset(JSON.parse(fromBase64Url(encoded)));
+  } catch {
+    return { ok: false, error: "Preset link is corrupted" };
+  }
+};
+
+export const parsePresetJson = (text: string): PresetResult => {
+  try {
+    return validatePreset(JSON.parse(text));
+  } catch {
+    return { ok: false, error: "File is not valid JSON" };
+  }
+};
+
+export const downloadPreset = (preset: GalleryPreset, filename = "gallery-preset.json") => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(preset, null, 2)], { type: "application/json" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url));
+};
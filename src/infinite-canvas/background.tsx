@@ -0,0 +1,135 @@
+import { useFrame, useThree } from "@react-three/fiber";
+import * as React from "react";
+import * as THREE from "three";
+import type { BackgroundStyle } from "./types";
+
+/** Colors in a gradient background, from top (or centre) outwards. */
+export const GRADIENT_STOPS = 3;
+
+// WCAG ratio for UI components and large text; the frame header is drawn with `mix-blend-mode: difference`
+const MIN_CHROME_CONTRAST = 3;
+// Luminance of mid-grey, where a color and its difference-blended inverse are equally bright
+const MID_LUMINANCE = 0.214;
+const CONTRAST_STEP = 0.1;
+const MAX_CONTRAST_STEPS = 10;
+
+const SHADER_STYLES: Record<Exclude<BackgroundStyle, "solid">, number> = { linear: 0, radial: 1, noise: 2 };
+
+const VERTEX_SHADER = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    // Full-screen quad on the far plane, independent of the camera
+    gl_Position = vec4(position.xy, 1.0, 1.0);
+  }
+`;
+
+const FRAGMENT_SHADER = /* glsl */ `
+  uniform vec3 uColors[${GRADIENT_STOPS}];
+  uniform int uStyle;
+  uniform float uTime;
+  uniform float uAspect;
+  varying vec2 vUv;
+
+  float hash(vec2 p) {
+    return fract(sin(dot(p, vec2(127.1, 311.7))) * 43758.5453);
+  }
+
+  float noise(vec2 p) {
+    vec2 i = floor(p);
+    vec2 f = fract(p);
+    vec2 u = f * f * (3.0 - 2.0 * f);
+    return mix(mix(hash(i), hash(i + vec2(1.0, 0.0)), u.x), mix(hash(i + vec2(0.0, 1.0)), hash(i + vec2(1.0, 1.0)), u.x), u.y);
+  }
+
+  vec3 ramp(float t) {
+    t = clamp(t, 0.0, 1.0);
+    return t < 0.5 ? mix(uColors[0], uColors[1], t * 2.0) : mix(uColors[1], uColors[2], t * 2.0 - 1.0);
+  }
+
+  void main() {
+    vec2 p = (vUv - 0.5) * vec2(uAspect, 1.0);
+    float t;
+    if (uStyle == 0) {
+      t = 1.0 - vUv.y;
+    } else if (uStyle == 1) {
+      t = length(p) * 1.4;
+    } else {
+      vec2 q = p * 2.5;
+      t = noise(q + vec2(uTime * 0.03, uTime * 0.02)) * 0.6 + noise(q * 2.1 - uTime * 0.05) * 0.4;
+    }
+    gl_FragColor = vec4(ramp(t), 1.0);
+    #include <colorspace_fragment>
+  }
+`;
+
+const _display = new THREE.Color();
+const _inverse = new THREE.Color();
+const _black = new THREE.Color(0, 0, 0);
+const _white = new THREE.Color(1, 1, 1);
+
+const contrastRatio = (a: number, b: number): number => (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+
+// Working-space colors are linear, so the weighted sum is the WCAG relative luminance of what's displayed
+const luminance = (c: THREE.Color): number => 0.2126 * c.r + 0.7152 * c.g + 0.0722 * c.b;
+
+/** Contrast between a background color and the header text inverted over it by `mix-blend-mode: difference`. */
+const chromeContrast = (color: THREE.Color): number => {
+  _display.copy(color).convertLinearToSRGB();
+  _inverse.setRGB(1 - _display.r, 1 - _display.g, 1 - _display.b).convertSRGBToLinear();
+  return contrastRatio(luminance(color), luminance(_inverse));
+};
+
+/**
+ * Copy `color` into `target`, pushed towards black or white (whichever side it's on) until the UI
+ * chrome drawn over it keeps MIN_CHROME_CONTRAST. Mid-tones are the only colors affected.
+ */
+export const guardChromeContrast = (color: THREE.Color, target: THREE.Color): THREE.Color => {
+  target.copy(color);
+  const towards = luminance(color) < MID_LUMINANCE ? _black : _white;
+  for (let i = 0; i < MAX_CONTRAST_STEPS && chromeContrast(target) < MIN_CHROME_CONTRAST; i++) {
+    target.lerp(towards, CONTRAST_STEP);
+  }
+  return target;
+};
+
+/** Shader background behind every plane. `colors` is read each frame, so mutate it rather than replacing it. */
+export function GradientBackground({ style, colors }: { style: Exclude<BackgroundStyle, "solid">; colors: THREE.Color[] }) {
+  const size = useThree((s) => s.size);
+
+  const material = React.useMemo(
+    () =>
+      new THREE.ShaderMaterial({
+        uniforms: {
+          uColors: { value: colors },
+          uStyle: { value: 0 },
+          uTime: { value: 0 },
+          uAspect: { value: 1 },
+        },
+        vertexShader: VERTEX_SHADER,
+        fragmentShader: FRAGMENT_SHADER,
+        depthTest: false,
+        depthWrite: false,
+      }),
+    [colors]
+  );
+
+  const geometry = React.useMemo(() => new THREE.PlaneGeometry(2, 2), []);
+
+  React.useEffect(() => {
+    return () => {
+      material.dispose();
+      geometry.dispose();
+    };
+  }, [material, geometry]);
+
+  useFrame((_, delta) => {
+    const { uniforms } = material;
+    uniforms.uStyle.value = SHADER_STYLES[style];
+    uniforms.uAspect.value = size.width / Math.max(1, size.height);
+    uniforms.uTime.value += delta;
+  });
+
+  return <mesh geometry={geometry} material={material} renderOrder={-1000} frustumCulled={false} />;
+}
@@ -0,0 +1,202 @@
+/**
+ * Pixel statistics shared by the image worker, the main-thread fallback, uploads and the manifest
+ * script; no DOM or three.js here.
+ */
+import type { PaletteSwatch } from "./types";
+
+export type RGB = [r: number, g: number, b: number];
+
+export type ColorAnalysis = {
+  /** Dominant chromatic color, 0-1 per channel; the plain average for mostly grey images. */
+  dominant: RGB;
+  /** Median-cut swatches, heaviest first. */
+  palette: PaletteSwatch[];
+};
+
+/** Side of the square the image is scaled to before sampling. */
+export const ANALYSIS_SIZE = 32;
+
+const HUE_BUCKETS = 12;
+// Saturation-weighted share of pixels needed before the hue buckets are trusted over the average
+const MIN_SATURATED_SHARE = 5 / (ANALYSIS_SIZE * ANALYSIS_SIZE);
+const PALETTE_SIZE = 8;
+// Images with at least this many distinct colors get at least this many swatches
+const MIN_PALETTE_SIZE = 5;
+// Most boxes split while looking for distinct colors that merging left out
+const MAX_PALETTE_BOXES = 64;
+// Larger inputs (full thumbnails in the manifest script) are sampled down to about this many pixels
+const MAX_PALETTE_PIXELS = 4096;
+// Swatches closer than this (0-255 RGB distance) are merged, so flat images yield fewer swatches
+const SWATCH_MERGE_DISTANCE = 24;
+// Swatches covering less of the image than this are dropped, unless the palette would fall below MIN_PALETTE_SIZE
+const SWATCH_MIN_WEIGHT = 0.01;
+
+const toByteHex = (c: number): string =>
+  Math.round(Math.min(1, Math.max(0, c)) * 255)
+    .toString(16)
+    .padStart(2, "0");
+
+/** `#rrggbb` for a 0-1 color. */
+export const rgbToHex = ([r, g, b]: RGB): string => `#${toByteHex(r)}${toByteHex(g)}${toByteHex(b)}`;
+
+type ColorBox = { pixels: number[]; range: number; channel: number };
+
+const measureBox = (pixels: number[], rgb: Uint8Array): ColorBox => {
+  const min = [255, 255, 255];
+  const max = [0, 0, 0];
+  for (const p of pixels) {
+    for (let c = 0; c < 3; c++) {
+      const v = rgb[p * 3 + c];
+      if (v < min[c]) min[c] = v;
+      if (v > max[c]) max[c] = v;
+    }
+  }
+  const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]];
+  const channel = ranges.indexOf(Math.max(...ranges));
+  return { pixels, range: ranges[channel], channel };
+};
+
+/** Split the box with the widest channel, weighted by pixel count, at its median; false once nothing can split. */
+const splitWidest = (boxes: ColorBox[], rgb: Uint8Array): boolean => {
+  let widest = 0;
+  for (let i = 1; i < boxes.length; i++) {
+    if (boxes[i].range * boxes[i].pixels.length > boxes[widest].range * boxes[widest].pixels.length) widest = i;
+  }
+  const box = boxes[widest];
+  if (box.range === 0 || box.pixels.length < 2) return false;
+
+  const sorted = box.pixels.sort((a, b) => rgb[a * 3 + box.channel] - rgb[b * 3 + box.channel]);
+  const mid = sorted.length >> 1;
+  boxes.splice(widest, 1, measureBox(sorted.slice(0, mid), rgb), measureBox(sorted.slice(mid), rgb));
+  return true;
+};
+
+/** Mean color of each box, with boxes closer than SWATCH_MERGE_DISTANCE merged; heaviest first. */
+const mergeBoxes = (boxes: ColorBox[], rgb: Uint8Array, pixelCount: number): PaletteSwatch[] => {
+  const merged: { rgb: RGB; count: number }[] = [];
+  for (const box of boxes) {
+    const sum: RGB = [0, 0, 0];
+    for (const p of box.pixels) {
+      sum[0] += rgb[p * 3];
+      sum[1] += rgb[p * 3 + 1];
+      sum[2] += rgb[p * 3 + 2];
+    }
+    const count = box.pixels.length;
+    const mean: RGB = [sum[0] / count, sum[1] / count, sum[2] / count];
+
+    const near = merged.find(
+      (s) => Math.hypot(s.rgb[0] - mean[0], s.rgb[1] - mean[1], s.rgb[2] - mean[2]) < SWATCH_MERGE_DISTANCE
+    );
+    if (near) {
+      const n = near.count + count;
+      near.rgb = [
+        (near.rgb[0] * near.count + mean[0] * count) / n,
+        (near.rgb[1] * near.count + mean[1] * count) / n,
+        (near.rgb[2] * near.count + mean[2] * count) / n,
+      ];
+      near.count = n;
+    } else {
+      merged.push({ rgb: mean, count });
+    }
+  }
+
+  return merged
+    .map((s) => ({ color: rgbToHex([s.rgb[0] / 255, s.rgb[1] / 255, s.rgb[2] / 255]), weight: s.count / pixelCount }))
+    .sort((a, b) => b.weight - a.weight);
+};
+
+/**
+ * Median-cut palette of RGBA bytes: up to PALETTE_SIZE swatches weighted by the share of pixels they
+ * cover. Boxes keep splitting past PALETTE_SIZE while merging leaves fewer than MIN_PALETTE_SIZE
+ * distinct colors, and light swatches are only dropped while at least that many remain.
+ */
+export const extractPalette = (data: ArrayLike<number>): PaletteSwatch[] => {
+  const total = Math.floor(data.length / 4);
+  const stride = Math.max(1, Math.floor(total / MAX_PALETTE_PIXELS));
+  const rgb = new Uint8Array(Math.ceil(total / stride) * 3);
+  const pixels: number[] = [];
+
+  for (let i = 0; i < total; i += stride) {
+    // Skip transparent pixels, they aren't part of the picture
+    if (data[i * 4 + 3] < 128) continue;
+    const p = pixels.length;
+    rgb[p * 3] = data[i * 4];
+    rgb[p * 3 + 1] = data[i * 4 + 1];
+    rgb[p * 3 + 2] = data[i * 4 + 2];
+    pixels.push(p);
+  }
+  if (!pixels.length) return [];
+
+  const boxes = [measureBox(pixels, rgb)];
+  while (boxes.length < PALETTE_SIZE && splitWidest(boxes, rgb));
+  let swatches = mergeBoxes(boxes, rgb, pixels.length);
+  while (swatches.length < MIN_PALETTE_SIZE && boxes.length < MAX_PALETTE_BOXES && splitWidest(boxes, rgb)) {
+    swatches = mergeBoxes(boxes, rgb, pixels.length);
+  }
+
+  // Heaviest first, so the swatches above the weight floor come first
+  const heavy = swatches.filter((s) => s.weight >= SWATCH_MIN_WEIGHT).length;
+  return swatches.slice(0, Math.min(PALETTE_SIZE, Math.max(MIN_PALETTE_SIZE, heavy)));
+};
+
+/** Bucket hues of saturated pixels (RGBA bytes) to find the dominant chromatic color. */
+export const findDominantColor = (data: ArrayLike<number>): RGB => {
+  const bucketCount = new Float32Array(HUE_BUCKETS);
+  const bucketR = new Float32Array(HUE_BUCKETS);
+  const bucketG = new Float32Array(HUE_BUCKETS);
+  const bucketB = new Float32Array(HUE_BUCKETS);
+  let totalSaturated = 0;
+  let sumR = 0;
+  let sumG = 0;
+  let sumB = 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    const pr = data[i] / 255;
+    const pg = data[i + 1] / 255;
+    const pb = data[i + 2] / 255;
+    sumR += pr;
+    sumG += pg;
+    sumB += pb;
+
+    const max = Math.max(pr, pg, pb);
+    const min = Math.min(pr, pg, pb);
+    const delta = max - min;
+    const lightness = (max + min) / 2;
+    const sat = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+
+    // Only count pixels with meaningful saturation and mid-range lightness
+    if (sat < 0.2 || lightness > 0.9 || lightness < 0.1) continue;
+
+    let hue = 0;
+    if (delta > 0) {
+      if (max === pr) hue = ((pg - pb) / delta + 6) % 6;
+      else if (max === pg) hue = (pb - pr) / delta + 2;
+      else hue = (pr - pg) / delta + 4;
+    }
+    const bucket = Math.floor((hue / 6) * HUE_BUCKETS) % HUE_BUCKETS;
+    // Weight by saturation so vivid colors win over dull ones
+    bucketCount[bucket] += sat;
+    bucketR[bucket] += pr * sat;
+    bucketG[bucket] += pg * sat;
+    bucketB[bucket] += pb * sat;
+    totalSaturated += sat;
+  }
+
+  // Not enough chromatic pixels: fall back to the simple average
+  const pixels = Math.max(1, data.length / 4);
+  if (totalSaturated < pixels * MIN_SATURATED_SHARE) {
+    return [sumR / pixels, sumG / pixels, sumB / pixels];
+  }
+
+  let best = 0;
+  for (let i = 1; i < HUE_BUCKETS; i++) {
+    if (bucketCount[i] > bucketCount[best]) best = i;
+  }
+  const w = bucketCount[best];
+  return [bucketR[best] / w, bucketG[best] / w, bucketB[best] / w];
+};
+
+export const analyzePixels = (data: ArrayLike<number>): ColorAnalysis => ({
+  dominant: findDominantColor(data),
+  palette: extractPalette(data),
+});
@@ -0,0 +1,73 @@
+import type * as THREE from "three";
+
+/** Coarse color families used to theme focus effects and to search artworks by color. */
+export const COLOR_CATEGORIES = [
+  "pinkRed",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "purple",
+  "brown",
+  "black",
+  "greyWhite",
+] as const;
+
+export type ColorCategory = (typeof COLOR_CATEGORIES)[number];
+
+const CATEGORY_ALIASES: Record<string, ColorCategory> = {
+  red: "pinkRed",
+  pink: "pinkRed",
+  violet: "purple",
+  grey: "greyWhite",
+  gray: "greyWhite",
+  white: "greyWhite",
+};
+
+function rgbToHsl(r255: number, g255: number, b255: number): { h: number; s: number; l: number } {
+  const r = r255 / 255;
+  const g = g255 / 255;
+  const b = b255 / 255;
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  let h = 0;
+  const l = (max + min) / 2;
+  const d = max - min;
+  if (d === 0) return { h: 0, s: 0, l };
+  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+  switch (max) {
+    case r:
+      h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+      break;
+    case g:
+      h = ((b - r) / d + 2) / 6;
+      break;
+    default:
+      h = ((r - g) / d + 4) / 6;
+  }
+  return { h: h * 360, s, l };
+}
+
+export function getCategoryFromColor(color: THREE.Color): ColorCategory {
+  const r = color.r * 255;
+  const g = color.g * 255;
+  const b = color.b * 255;
+  const { h, s, l } = rgbToHsl(r, g, b);
+  if (l <= 0.12) return "black";
+  if (l >= 0.9 || s <= 0.06) return "greyWhite";
+  if (l <= 0.45 && l >= 0.18 && h >= 20 && h < 55) return "brown";
+  if (h < 15 || h >= 345) return "pinkRed";
+  if (h >= 15 && h < 45) return "orange";
+  if (h >= 45 && h < 70) return "yellow";
+  if (h >= 70 && h < 175) return "green";
+  if (h >= 175 && h < 260) return "blue";
+  if (h >= 260 && h < 310) return "purple";
+  if (h >= 310 && h < 345) return "pinkRed";
+  return "greyWhite";
+}
+
+/** Map loose color names ("red", "Blue", "gray") onto a category, or null if unknown. */
+export function normalizeColorCategory(name: string): ColorCategory | null {
+  const key = name.trim().toLowerCase();
+  return COLOR_CATEGORIES.find((c) => c.toLowerCase() === key) ?? CATEGORY_ALIASES[key] ?? null;
+}
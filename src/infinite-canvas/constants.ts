@@ -33,3 +33,7 @@ export const CHUNK_OFFSETS: ChunkOffset[] = run(() => {
   }
   return offsets;
 });
+
+export const FLY_DURATION_MS = 900;
+export const INSPECT_MARGIN = 1.3;
+export const CLICK_DRAG_THRESHOLD = 4;
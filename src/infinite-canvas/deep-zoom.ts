@@ -0,0 +1,198 @@
+import * as THREE from "three";
+import { acquireLevelTexture, releaseLevelTexture } from "./texture-manager";
+import type { TextureLevel } from "./texture-manager";
+import type { MediaItem } from "./types";
+
+/** What a IIIF image service's `info.json` says about the full image and how it's tiled. */
+type ImageInfo = {
+  width: number;
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  /** Downscales tiles are served at, ascending. */
+  scaleFactors: number[];
+  /** Image API version; tile sizes are spelled differently in 3. */
+  version: 2 | 3;
+};
+
+/** One region of the full image, drawn over the part of its plane it covers. */
+export type ZoomTile = {
+  level: TextureLevel;
+  /** Places the unit plane over the tile's part of its plane, in the plane's local space. */
+  matrix: THREE.Matrix4;
+  /** Null until loaded; the plane's own texture shows through meanwhile. */
+  texture: THREE.Texture | null;
+  onLoad: (texture: THREE.Texture) => void;
+};
+
+/** Tiles a plane holds, keyed by url; all at the scale its current size on screen needs. */
+export type PlaneZoom = { tiles: Map<string, ZoomTile> };
+
+// Used when a service doesn't list its tiles; level 1 and up servers accept any region
+const DEFAULT_TILE_SIZE = 512;
+// Enough to cover a 4K screen at twice its resolution, the most `getProjectedTexelHeight` asks for
+const MAX_ZOOM_TILES = 64;
+
+// null while loading, and for services that failed; both fall back to the plane's single image
+const imageInfos = new Map<string, ImageInfo | null>();
+
+const _local = new THREE.Matrix4();
+const _world = new THREE.Matrix4();
+const _corner = new THREE.Vector3();
+const TILE_CORNERS = [
+  [-0.5, -0.5],
+  [0.5, -0.5],
+  [0.5, 0.5],
+  [-0.5, 0.5],
+] as const;
+
+const parseImageInfo = (json: unknown): ImageInfo | null => {
+  if (typeof json !== "object" || json === null) return null;
+  const info = json as { width?: unknown; height?: unknown; tiles?: unknown; type?: unknown; "@context"?: unknown };
+  const width = Number(info.width);
+  const height = Number(info.height);
+  if (!(width > 0 && height > 0)) return null;
+
+  const tile = (Array.isArray(info.tiles) ? info.tiles[0] : undefined) as
+    | { width?: unknown; height?: unknown; scaleFactors?: unknown }
+    | undefined;
+  const tileWidth = Number(tile?.width) || DEFAULT_TILE_SIZE;
+  const tileHeight = Number(tile?.height) || tileWidth;
+
+  let scaleFactors = Array.isArray(tile?.scaleFactors) ? tile.scaleFactors.map(Number).filter((s) => s >= 1) : [];
+  if (!scaleFactors.length) {
+    // Halve until the whole image fits in one tile
+    scaleFactors = [1];
+    while (Math.max(width, height) / scaleFactors[scaleFactors.length - 1] > tileWidth) {
+      scaleFactors.push(scaleFactors[scaleFactors.length - 1] * 2);
+    }
+  }
+  scaleFactors = scaleFactors.sort((a, b) => a - b);
+
+  const version = info.type === "ImageService3" || JSON.stringify(info["@context"] ?? "").includes("/image/3/") ? 3 : 2;
+  return { width, height, tileWidth, tileHeight, scaleFactors, version };
+};
+
+/** The service's `info.json`, once fetched; starts fetching it on first call. */
+const getImageInfo = (service: string): ImageInfo | null => {
+  if (!imageInfos.has(service)) {
+    imageInfos.set(service, null);
+    fetch(`${service}/info.json`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+        return res.json();
+      })
+      .then((json) => imageInfos.set(service, parseImageInfo(json)))
+      .catch((err) => console.error("Deep zoom unavailable:", service, err));
+  }
+  return imageInfos.get(service) ?? null;
+};
+
+/** Coarsest scale whose tiles are still at least `texelHeight` tall put together. */
+const pickScale = (info: ImageInfo, texelHeight: number): number => {
+  let scale = info.scaleFactors[0];
+  for (const s of info.scaleFactors) {
+    if (info.height / s >= texelHeight) scale = s;
+  }
+  return scale;
+};
+
+/** A tile request as the Image API spells it: full-resolution region, then the size it's served at. */
+const getTileUrl = (service: string, info: ImageInfo, scale: number, x: number, y: number, w: number, h: number) => {
+  const width = Math.ceil(w / scale);
+  const size = info.version === 3 ? `${width},${Math.ceil(h / scale)}` : `${width},`;
+  return `${service}/${x},${y},${w},${h}/${size}/0/default.jpg`;
+};
+
+/** Whether a unit plane transformed by `matrix` overlaps the screen. Tiles partly behind the camera count. */
+const isOnScreen = (matrix: THREE.Matrix4, camera: THREE.Camera): boolean => {
+  let minX = Number.POSITIVE_INFINITY;
+  let minY = Number.POSITIVE_INFINITY;
+  let maxX = Number.NEGATIVE_INFINITY;
+  let maxY = Number.NEGATIVE_INFINITY;
+
+  for (const [x, y] of TILE_CORNERS) {
+    _corner.set(x, y, 0).applyMatrix4(matrix).project(camera);
+    if (_corner.z > 1) return true;
+    minX = Math.min(minX, _corner.x);
+    minY = Math.min(minY, _corner.y);
+    maxX = Math.max(maxX, _corner.x);
+    maxY = Math.max(maxY, _corner.y);
+  }
+  return maxX >= -1 && minX <= 1 && maxY >= -1 && minY <= 1;
+};
+
+const releaseTile = (tile: ZoomTile) => releaseLevelTexture(tile.level, tile.onLoad);
+
+export const releasePlaneZoom = (zoom: PlaneZoom | null): void => {
+  zoom?.tiles.forEach(releaseTile);
+};
+
+/**
+ * Tiles for a plane drawn `texelHeight` device pixels tall, placed by `matrix`. Only IIIF items zoomed
+ * in past `baseHeight`, the largest image the plane already shows, get any; everything else, and items
+ * whose service can't be reached, keep showing their single image. Returns the plane's new zoom state.
+ */
+export const updatePlaneZoom = (
+  zoom: PlaneZoom | null,
+  media: MediaItem,
+  matrix: THREE.Matrix4,
+  texelHeight: number,
+  baseHeight: number,
+  camera: THREE.Camera
+): PlaneZoom | null => {
+  const service = media.iiif;
+  const info = service && texelHeight > baseHeight ? getImageInfo(service) : null;
+  const scale = info ? pickScale(info, texelHeight) : 1;
+  if (!service || !info || info.height / scale <= baseHeight) {
+    releasePlaneZoom(zoom);
+    return null;
+  }
+
+  const next = zoom ?? { tiles: new Map() };
+  const visible = new Set<string>();
+  const regionWidth = info.tileWidth * scale;
+  const regionHeight = info.tileHeight * scale;
+
+  for (let y = 0; y < info.height && visible.size < MAX_ZOOM_TILES; y += regionHeight) {
+    for (let x = 0; x < info.width && visible.size < MAX_ZOOM_TILES; x += regionWidth) {
+      const w = Math.min(regionWidth, info.width - x);
+      const h = Math.min(regionHeight, info.height - y);
+      // Image rows run top down, plane y bottom up
+      _local
+        .makeScale(w / info.width, h / info.height, 1)
+        .setPosition((x + w / 2) / info.width - 0.5, 0.5 - (y + h / 2) / info.height, 0);
+      if (!isOnScreen(_world.multiplyMatrices(matrix, _local), camera)) continue;
+
+      const url = getTileUrl(service, info, scale, x, y, w, h);
+      visible.add(url);
+      if (next.tiles.has(url)) continue;
+
+      const tile: ZoomTile = {
+        level: {
+          key: url,
+          url,
+          itemUrl: media.url,
+          width: Math.ceil(w / scale),
+          height: Math.ceil(h / scale),
+          generated: false,
+          video: false,
+        },
+        matrix: _local.clone(),
+        texture: null,
+        onLoad: (texture) => {
+          tile.texture = texture;
+        },
+      };
+      next.tiles.set(url, tile);
+      acquireLevelTexture(tile.level, tile.onLoad);
+    }
+  }
+
+  for (const [url, tile] of next.tiles) {
+    if (visible.has(url)) continue;
+    releaseTile(tile);
+    next.tiles.delete(url);
+  }
+  return next;
+};
@@ -1,6 +1,8 @@
 import { useFrame, useThree } from "@react-three/fiber";
 import * as React from "react";
 import * as THREE from "three";
+import { getCategoryFromColor } from "./color-category";
+import type { FocusEffectType } from "./types";
 
 type FocusState = { coverage: number; color: THREE.Color; effectBlend: number };
 
@@ -12,6 +14,17 @@ const FIRE_FLOAT_AMPLITUDE = 2.5;
 const FIRE_FLOAT_SPEED = 0.2;
 const FIRE_JITTER = 0.03;
 const FIRE_SPREAD = 45;
+const CLOUD_PARTICLE_COUNT = 36;
+const CLOUD_DRIFT_SPEED = 0.04;
+const CLOUD_BOB_AMPLITUDE = 1.5;
+const CLOUD_SPREAD = 60;
+const CLOUD_SIZE = 18;
+const FLOWER_PARTICLE_COUNT = 90;
+const FLOWER_FALL_SPEED = 0.05;
+const FLOWER_SWAY_AMPLITUDE = 3;
+const FLOWER_SWAY_SPEED = 0.6;
+const FLOWER_SPREAD = 45;
+const TINT_LERP = 0.05;
 
 const EMOJIS_PER_CATEGORY = 8;
 
@@ -57,48 +70,6 @@ function takeEmojisForTextures(category: string): string[] {
 
 const EMOJI_SIZE = 64;
 
-function rgbToHsl(r: number, g: number, b: number): { h: number; s: number; l: number } {
-  r /= 255;
-  g /= 255;
-  b /= 255;
-  const max = Math.max(r, g, b);
-  const min = Math.min(r, g, b);
-  let h = 0;
-  const l = (max + min) / 2;
-  const d = max - min;
-  if (d === 0) return { h: 0, s: 0, l };
-  const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
-  switch (max) {
-    case r:
-      h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-      break;
-    case g:
-      h = ((b - r) / d + 2) / 6;
-      break;
-    default:
-      h = ((r - g) / d + 4) / 6;
-  }
-  return { h: h * 360, s, l };
-}
-
-function getCategoryFromColor(color: THREE.Color): string {
-  const r = color.r * 255;
-  const g = color.g * 255;
-  const b = color.b * 255;
-  const { h, s, l } = rgbToHsl(r, g, b);
-  if (l <= 0.12) return "black";
-  if (l >= 0.9 || s <= 0.06) return "greyWhite";
-  if (l <= 0.45 && l >= 0.18 && h >= 20 && h < 55) return "brown";
-  if (h < 15 || h >= 345) return "pinkRed";
-  if (h >= 15 && h < 45) return "orange";
-  if (h >= 45 && h < 70) return "yellow";
-  if (h >= 70 && h < 175) return "green";
-  if (h >= 175 && h < 260) return "blue";
-  if (h >= 260 && h < 310) return "purple";
-  if (h >= 310 && h < 345) return "pinkRed";
-  return "greyWhite";
-}
-
 function createEmojiTexture(emoji: string): THREE.CanvasTexture {
   const canvas = document.createElement("canvas");
   canvas.width = EMOJI_SIZE;
@@ -129,16 +100,109 @@ const CATEGORY_TEXTURES: Record<string, THREE.Texture[]> = (() => {
 
 const FALLBACK_CATEGORY = "greyWhite";
 
+// Base tint per focus category, used by the sprite-based effects (clouds, petals)
+const CATEGORY_TINTS: Record<string, string> = {
+  pinkRed: "#ff8fa3",
+  orange: "#ffb26b",
+  yellow: "#ffe27a",
+  green: "#9be58f",
+  blue: "#8ec5ff",
+  purple: "#c9a0ff",
+  brown: "#c89f7a",
+  black: "#5a5a66",
+  greyWhite: "#f2f2f2",
+};
+
+const SPRITE_SIZE = 64;
+
+function createSpriteTexture(draw: (ctx: CanvasRenderingContext2D, size: number) => void): THREE.CanvasTexture {
+  const canvas = document.createElement("canvas");
+  canvas.width = SPRITE_SIZE;
+  canvas.height = SPRITE_SIZE;
+  const ctx = canvas.getContext("2d");
+  if (ctx) draw(ctx, SPRITE_SIZE);
+
+  const tex = new THREE.CanvasTexture(canvas);
+  tex.needsUpdate = true;
+  return tex;
+}
+
+/** Soft white puff; tinted through the material color. */
+const CLOUD_TEXTURE = createSpriteTexture((ctx, size) => {
+  const half = size / 2;
+  const puffs = [
+    [half, half, half * 0.55],
+    [half * 0.65, half * 1.1, half * 0.4],
+    [half * 1.35, half * 1.1, half * 0.4],
+  ] as const;
+  for (const [x, y, r] of puffs) {
+    const grad = ctx.createRadialGradient(x, y, 0, x, y, r);
+    grad.addColorStop(0, "rgba(255,255,255,0.9)");
+    grad.addColorStop(0.6, "rgba(255,255,255,0.35)");
+    grad.addColorStop(1, "rgba(255,255,255,0)");
+    ctx.fillStyle = grad;
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fill();
+  }
+});
+
+/** Single petal and a five-petal blossom, both white so they can be tinted. */
+const PETAL_TEXTURES = [
+  createSpriteTexture((ctx, size) => {
+    const half = size / 2;
+    ctx.fillStyle = "#ffffff";
+    ctx.beginPath();
+    ctx.ellipse(half, half, half * 0.35, half * 0.7, Math.PI / 5, 0, Math.PI * 2);
+    ctx.fill();
+  }),
+  createSpriteTexture((ctx, size) => {
+    const half = size / 2;
+    ctx.fillStyle = "#ffffff";
+    for (let i = 0; i < 5; i++) {
+      const angle = (i / 5) * Math.PI * 2;
+      ctx.beginPath();
+      ctx.ellipse(
+        half + Math.cos(angle) * half * 0.4,
+        half + Math.sin(angle) * half * 0.4,
+        half * 0.28,
+        half * 0.42,
+        angle + Math.PI / 2,
+        0,
+        Math.PI * 2
+      );
+      ctx.fill();
+    }
+    ctx.fillStyle = "rgba(255,255,255,0.6)";
+    ctx.beginPath();
+    ctx.arc(half, half, half * 0.18, 0, Math.PI * 2);
+    ctx.fill();
+  }),
+];
+
+const _tint = new THREE.Color();
+const WHITE = new THREE.Color("#ffffff");
+
+/** Lerp a material's color toward the tint of the current focus category. */
+function applyCategoryTint(material: THREE.PointsMaterial, focusColor: THREE.Color, whiten: number) {
+  const category = getCategoryFromColor(focusColor);
+  _tint.set(CATEGORY_TINTS[category] ?? CATEGORY_TINTS[FALLBACK_CATEGORY]);
+  _tint.lerp(WHITE, whiten);
+  material.color.lerp(_tint, TINT_LERP);
+}
+
 function FireEffect({
   focusRef,
   categoryTextures,
+  particleScale,
 }: {
   focusRef: React.RefObject<FocusState>;
   categoryTextures: Record<string, THREE.Texture[]>;
+  particleScale: number;
 }) {
   const groupRef = React.useRef<THREE.Group>(null);
   const pointsRefs = React.useRef<(THREE.Object3D | null)[]>([]);
-  const countPerEmoji = Math.floor(FIRE_PARTICLE_COUNT / EMOJIS_PER_CATEGORY);
+  const countPerEmoji = Math.max(1, Math.floor((FIRE_PARTICLE_COUNT * particleScale) / EMOJIS_PER_CATEGORY));
   const timeRef = React.useRef(0);
   const baseRefs = React.useRef<{ x: Float32Array; z: Float32Array }[]>([]);
 
@@ -168,7 +232,13 @@ function FireEffect({
       baseRefs.current[texIndex] = { x: baseX, z: baseZ };
       return geo;
     });
-  }, []);
+  }, [countPerEmoji]);
+
+  React.useEffect(() => {
+    return () => {
+      for (const geo of geometries) geo.dispose();
+    };
+  }, [geometries]);
 
   useFrame((_, delta) => {
     const group = groupRef.current;
@@ -242,11 +312,185 @@ function FireEffect({
   );
 }
 
+function CloudEffect({ focusRef, particleScale }: { focusRef: React.RefObject<FocusState>; particleScale: number }) {
+  const pointsRef = React.useRef<THREE.Points>(null);
+  const timeRef = React.useRef(0);
+  const count = Math.max(1, Math.floor(CLOUD_PARTICLE_COUNT * particleScale));
+
+  const { geometry, baseY, speeds } = React.useMemo(() => {
+    const geo = new THREE.BufferGeometry();
+    const n = count;
+    const positions = new Float32Array(n * 3);
+    const colors = new Float32Array(n * 3);
+    const baseY = new Float32Array(n);
+    const speeds = new Float32Array(n);
+    for (let i = 0; i < n; i++) {
+      positions[i * 3] = (Math.random() - 0.5) * 2 * CLOUD_SPREAD;
+      positions[i * 3 + 1] = (Math.random() - 0.5) * CLOUD_SPREAD;
+      positions[i * 3 + 2] = (Math.random() - 0.5) * 20;
+      baseY[i] = positions[i * 3 + 1];
+      speeds[i] = CLOUD_DRIFT_SPEED * (0.5 + Math.random());
+      // Slight per-puff shading so overlapping clouds read as volume
+      const shade = 0.85 + Math.random() * 0.15;
+      colors[i * 3] = shade;
+      colors[i * 3 + 1] = shade;
+      colors[i * 3 + 2] = shade;
+    }
+    geo.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+    geo.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+    return { geometry: geo, baseY, speeds };
+  }, [count]);
+
+  React.useEffect(() => {
+    return () => geometry.dispose();
+  }, [geometry]);
+
+  useFrame((_, delta) => {
+    const pts = pointsRef.current;
+    if (!pts) return;
+
+    const focus = focusRef.current;
+    const blend = focus.effectBlend ?? 0;
+    pts.visible = blend > BLEND_VISIBLE_THRESHOLD;
+    if (!pts.visible) return;
+
+    const mat = pts.material as THREE.PointsMaterial;
+    applyCategoryTint(mat, focus.color, 0.45);
+    mat.opacity = blend * 0.55;
+
+    timeRef.current += delta;
+    const t = timeRef.current;
+    const posAttr = geometry.getAttribute("position") as THREE.BufferAttribute;
+    const pos = posAttr.array as Float32Array;
+    for (let i = 0; i < count; i++) {
+      pos[i * 3] += speeds[i] * delta * 60;
+      if (pos[i * 3] > CLOUD_SPREAD) pos[i * 3] = -CLOUD_SPREAD;
+      pos[i * 3 + 1] = baseY[i] + Math.sin(t * 0.3 + i) * CLOUD_BOB_AMPLITUDE;
+    }
+    posAttr.needsUpdate = true;
+  });
+
+  return (
+    <points ref={pointsRef} geometry={geometry} renderOrder={1000}>
+      <pointsMaterial
+        map={CLOUD_TEXTURE}
+        size={CLOUD_SIZE}
+        vertexColors
+        transparent
+        opacity={0}
+        sizeAttenuation
+        depthWrite={false}
+      />
+    </points>
+  );
+}
+
+function FlowersEffect({ focusRef, particleScale }: { focusRef: React.RefObject<FocusState>; particleScale: number }) {
+  const pointsRefs = React.useRef<(THREE.Object3D | null)[]>([]);
+  const timeRef = React.useRef(0);
+  const countPerTexture = Math.max(1, Math.floor((FLOWER_PARTICLE_COUNT * particleScale) / PETAL_TEXTURES.length));
+
+  const layers = React.useMemo(() => {
+    return PETAL_TEXTURES.map(() => {
+      const geo = new THREE.BufferGeometry();
+      const n = countPerTexture;
+      const positions = new Float32Array(n * 3);
+      const colors = new Float32Array(n * 3);
+      const baseX = new Float32Array(n);
+      const speeds = new Float32Array(n);
+      for (let i = 0; i < n; i++) {
+        positions[i * 3] = (Math.random() - 0.5) * 2 * FLOWER_SPREAD;
+        positions[i * 3 + 1] = (Math.random() - 0.5) * FLOWER_SPREAD * 1.2;
+        positions[i * 3 + 2] = (Math.random() - 0.5) * 10;
+        baseX[i] = positions[i * 3];
+        speeds[i] = FLOWER_FALL_SPEED * (0.6 + Math.random() * 0.8);
+        // Vary petal brightness so a single tint still looks organic
+        const shade = 0.75 + Math.random() * 0.25;
+        colors[i * 3] = shade;
+        colors[i * 3 + 1] = shade;
+        colors[i * 3 + 2] = shade;
+      }
+      geo.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+      geo.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+      return { geometry: geo, baseX, speeds };
+    });
+  }, [countPerTexture]);
+
+  React.useEffect(() => {
+    return () => {
+      for (const layer of layers) layer.geometry.dispose();
+    };
+  }, [layers]);
+
+  useFrame((_, delta) => {
+    const focus = focusRef.current;
+    const blend = focus.effectBlend ?? 0;
+    const visible = blend > BLEND_VISIBLE_THRESHOLD;
+
+    for (const obj of pointsRefs.current) {
+      const pts = obj as THREE.Points | null;
+      if (!pts) continue;
+      pts.visible = visible;
+      if (!visible) continue;
+      const mat = pts.material as THREE.PointsMaterial;
+      applyCategoryTint(mat, focus.color, 0.15);
+      mat.opacity = blend * 0.8;
+    }
+    if (!visible) return;
+
+    timeRef.current += delta;
+    const t = timeRef.current;
+
+    layers.forEach(({ geometry, baseX, speeds }, layerIndex) => {
+      const posAttr = geometry.getAttribute("position") as THREE.BufferAttribute;
+      const pos = posAttr.array as Float32Array;
+      for (let i = 0; i < countPerTexture; i++) {
+        pos[i * 3 + 1] -= speeds[i] * delta * 60;
+        if (pos[i * 3 + 1] < -FLOWER_SPREAD * 0.6) {
+          pos[i * 3 + 1] = FLOWER_SPREAD * 0.6;
+        }
+        const phase = (i / countPerTexture) * Math.PI * 2 + layerIndex;
+        pos[i * 3] = baseX[i] + Math.sin(t * FLOWER_SWAY_SPEED + phase) * FLOWER_SWAY_AMPLITUDE;
+      }
+      posAttr.needsUpdate = true;
+    });
+  });
+
+  return (
+    <group>
+      {layers.map((layer, i) => (
+        <points
+          key={i}
+          ref={(el) => {
+            pointsRefs.current[i] = el;
+          }}
+          geometry={layer.geometry}
+          renderOrder={1000}
+        >
+          <pointsMaterial
+            map={PETAL_TEXTURES[i]}
+            size={2.5}
+            vertexColors
+            transparent
+            opacity={0}
+            sizeAttenuation
+            depthWrite={false}
+          />
+        </points>
+      ))}
+    </group>
+  );
+}
+
 export function FocusEffects3D({
   focusRef,
+  effectType = "fire",
+  particleScale = 1,
 }: {
   focusRef: React.RefObject<FocusState>;
-  effectType?: "fire" | "cloud" | "flowers";
+  effectType?: FocusEffectType;
+  /** Quality multiplier on particle counts. */
+  particleScale?: number;
 }) {
   const { camera } = useThree();
   const groupRef = React.useRef<THREE.Group>(null);
@@ -260,7 +504,11 @@ export function FocusEffects3D({
 
   return (
     <group ref={groupRef}>
-      <FireEffect focusRef={focusRef} categoryTextures={CATEGORY_TEXTURES} />
+      {effectType === "fire" && (
+        <FireEffect focusRef={focusRef} categoryTextures={CATEGORY_TEXTURES} particleScale={particleScale} />
+      )}
+      {effectType === "cloud" && <CloudEffect focusRef={focusRef} particleScale={particleScale} />}
+      {effectType === "flowers" && <FlowersEffect focusRef={focusRef} particleScale={particleScale} />}
     </group>
   );
 }
@@ -0,0 +1,75 @@
+import type { ColorAnalysis } from "./color-analysis";
+
+export type DecodeRequest = {
+  id: number;
+  url: string;
+  /** Resize while decoding; both must be set. */
+  width?: number;
+  height?: number;
+  /** Also compute the dominant color and palette. */
+  analyze: boolean;
+};
+
+export type DecodeResponse = {
+  id: number;
+  bitmap?: ImageBitmap;
+  colors?: ColorAnalysis;
+  error?: string;
+};
+
+export type DecodedImage = { bitmap: ImageBitmap; colors: ColorAnalysis | null };
+
+type PendingDecode = { resolve: (image: DecodedImage) => void; reject: (err: Error) => void };
+
+const pending = new Map<number, PendingDecode>();
+let worker: Worker | null = null;
+let nextId = 0;
+// A worker has answered at least once; one failing before that most likely can't start at all
+let workerStarted = false;
+let workerBroken = false;
+
+/** Whether this browser can decode and analyze images in a worker, and the worker hasn't failed to start. */
+export const canDecodeOffThread = (): boolean =>
+  !workerBroken &&
+  typeof Worker !== "undefined" &&
+  typeof createImageBitmap !== "undefined" &&
+  typeof OffscreenCanvas !== "undefined";
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL("./image-worker.ts", import.meta.url), { type: "module" });
+  worker.onmessage = (e: MessageEvent<DecodeResponse>) => {
+    const { id, bitmap, colors, error } = e.data;
+    workerStarted = true;
+    const request = pending.get(id);
+    if (!request) return;
+
+    pending.delete(id);
+    if (bitmap) request.resolve({ bitmap, colors: colors ?? null });
+    else request.reject(new Error(error ?? "Decode failed"));
+  };
+  worker.onerror = (e) => {
+    console.error("Image worker failed:", e.message);
+    // Decodes in flight will never be answered; fail them so their textures get retried
+    for (const request of pending.values()) request.reject(new Error(`Image worker failed: ${e.message}`));
+    pending.clear();
+    worker?.terminate();
+    // The next decode starts a fresh worker, or decodes on the main thread if this one never started
+    worker = null;
+    if (!workerStarted) workerBroken = true;
+  };
+  return worker;
+};
+
+/** Fetch and decode an image off the main thread, optionally resized and color-analyzed. */
+export const decodeImage = (
+  url: string,
+  options: { width?: number; height?: number; analyze?: boolean } = {}
+): Promise<DecodedImage> =>
+  new Promise((resolve, reject) => {
+    const id = nextId++;
+    pending.set(id, { resolve, reject });
+    const request: DecodeRequest = { id, url, width: options.width, height: options.height, analyze: !!options.analyze };
+    getWorker().postMessage(request);
+  });
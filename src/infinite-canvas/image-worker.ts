@@ -0,0 +1,47 @@
+import { ANALYSIS_SIZE, analyzePixels } from "./color-analysis";
+import type { DecodeRequest, DecodeResponse } from "./image-decoder";
+
+// Several ladder levels of one image are often requested together; fetch it once
+const pendingBlobs = new Map<string, Promise<Blob>>();
+
+const fetchBlob = (url: string): Promise<Blob> => {
+  let pending = pendingBlobs.get(url);
+  if (!pending) {
+    pending = fetch(url)
+      .then((res) => {
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        return res.blob();
+      })
+      .finally(() => pendingBlobs.delete(url));
+    pendingBlobs.set(url, pending);
+  }
+  return pending;
+};
+
+const analysisCanvas = new OffscreenCanvas(ANALYSIS_SIZE, ANALYSIS_SIZE);
+const analysisCtx = analysisCanvas.getContext("2d", { willReadFrequently: true });
+
+const decode = async ({ id, url, width, height, analyze }: DecodeRequest): Promise<DecodeResponse> => {
+  const blob = await fetchBlob(url);
+  // three.js can't flip ImageBitmaps on upload, so flip here and upload with flipY = false
+  const bitmap = await createImageBitmap(blob, {
+    imageOrientation: "flipY",
+    ...(width && height ? { resizeWidth: width, resizeHeight: height, resizeQuality: "high" } : {}),
+  });
+
+  if (!analyze || !analysisCtx) {
+    return { id, bitmap };
+  }
+
+  analysisCtx.clearRect(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+  analysisCtx.drawImage(bitmap, 0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+  const { data } = analysisCtx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+  return { id, bitmap, colors: analyzePixels(data) };
+};
+
+self.onmessage = (e: MessageEvent<DecodeRequest>) => {
+  decode(e.data).then(
+    (response) => self.postMessage(response, { transfer: response.bitmap ? [response.bitmap] : [] }),
+    (err) => self.postMessage({ id: e.data.id, error: err instanceof Error ? err.message : String(err) })
+  );
+};
@@ -0,0 +1,67 @@
+import type { InputAction, KeyBindings } from "./types";
+
+const STORAGE_KEY = "infinite-canvas:key-bindings";
+
+export const INPUT_ACTIONS: { action: InputAction; label: string }[] = [
+  { action: "forward", label: "Forward" },
+  { action: "backward", label: "Backward" },
+  { action: "left", label: "Left" },
+  { action: "right", label: "Right" },
+  { action: "up", label: "Up" },
+  { action: "down", label: "Down" },
+];
+
+export const DEFAULT_KEY_BINDINGS: KeyBindings = {
+  forward: ["KeyW", "ArrowUp"],
+  backward: ["KeyS", "ArrowDown"],
+  left: ["KeyA", "ArrowLeft"],
+  right: ["KeyD", "ArrowRight"],
+  up: ["KeyE"],
+  down: ["KeyQ"],
+};
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  Space: "Space",
+};
+
+/** Short label for a `KeyboardEvent.code`: "KeyW" → "W", "Digit1" → "1", "ArrowUp" → "↑". */
+export const formatKeyCode = (code: string): string => KEY_NAMES[code] ?? code.replace(/^(Key|Digit|Numpad)/, "");
+
+/** Bind `code` to `action` alone, taking it away from any other action. */
+export const bindKey = (bindings: KeyBindings, action: InputAction, code: string): KeyBindings => {
+  const next = { ...bindings };
+  for (const { action: other } of INPUT_ACTIONS) {
+    next[other] = other === action ? [code] : bindings[other].filter((c) => c !== code);
+  }
+  return next;
+};
+
+/** Saved bindings merged over the defaults; anything unreadable falls back to the default. */
+export const loadKeyBindings = (): KeyBindings => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (!saved || typeof saved !== "object") return DEFAULT_KEY_BINDINGS;
+
+    const bindings = { ...DEFAULT_KEY_BINDINGS };
+    for (const { action } of INPUT_ACTIONS) {
+      const codes = (saved as Record<string, unknown>)[action];
+      if (Array.isArray(codes) && codes.every((code) => typeof code === "string")) bindings[action] = codes;
+    }
+    return bindings;
+  } catch (error) {
+    console.error("Ignoring saved key bindings:", error);
+    return DEFAULT_KEY_BINDINGS;
+  }
+};
+
+export const saveKeyBindings = (bindings: KeyBindings): void => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(bindings));
+  } catch (error) {
+    console.error("Failed to save key bindings:", error);
+  }
+};
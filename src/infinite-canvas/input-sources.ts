@@ -0,0 +1,253 @@
+import { KEYBOARD_SPEED } from "./constants";
+import { INPUT_ACTIONS } from "./input-bindings";
+import type { InputAction, KeyBindings } from "./types";
+
+/** The part of the controller state input sources write to. */
+export type InputTarget = {
+  /** Velocity the camera eases towards, in units per frame. */
+  targetVel: { x: number; y: number; z: number };
+  /** Pending zoom, consumed into `targetVel.z` a little each frame. */
+  scrollAccum: number;
+  /** Pointer position in NDC, for the hover drift. */
+  mouse: { x: number; y: number };
+  isDragging: boolean;
+  /** Set when the user grabs the view with a pointer or touch; the controller clears it. */
+  pointerInput: boolean;
+};
+
+/**
+ * One input device. Event-driven sources register listeners in `attach`; devices that have to be
+ * polled (held keys, gamepads, XR controllers) add their intent in `poll`, once per unlocked frame.
+ */
+export type InputSource = {
+  attach?: (target: InputTarget, element: HTMLElement) => () => void;
+  poll?: (target: InputTarget) => void;
+};
+
+const ACTION_VECTORS: Record<InputAction, [number, number, number]> = {
+  forward: [0, 0, -1],
+  backward: [0, 0, 1],
+  left: [-1, 0, 0],
+  right: [1, 0, 0],
+  up: [0, 1, 0],
+  down: [0, -1, 0],
+};
+
+// Stick deflection below this is drift, not intent
+const STICK_DEADZONE = 0.15;
+// Full stick deflection moves as fast as a held key
+const STICK_SPEED = KEYBOARD_SPEED;
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+const getTouchDistance = (touches: Touch[]) => {
+  if (touches.length < 2) {
+    return 0;
+  }
+
+  const [t1, t2] = touches;
+  const dx = t1.clientX - t2.clientX;
+  const dy = t1.clientY - t2.clientY;
+  return Math.sqrt(dx * dx + dy * dy);
+};
+
+const applyDeadzone = (value: number) => (Math.abs(value) < STICK_DEADZONE ? 0 : value);
+
+/** Left stick pans and dollies, right stick's vertical axis moves up and down; axes point right and down. */
+const applySticks = (target: InputTarget, leftX: number, leftY: number, rightY: number) => {
+  target.targetVel.x += applyDeadzone(leftX) * STICK_SPEED;
+  target.targetVel.z += applyDeadzone(leftY) * STICK_SPEED;
+  target.targetVel.y -= applyDeadzone(rightY) * STICK_SPEED;
+};
+
+/**
+ * Held keys, looked up through `bindings`. Keys typed into form fields, or already handled
+ * (`preventDefault`) by something else such as keyboard browsing, don't move the camera.
+ */
+export const createKeyboardSource = (bindings: KeyBindings): InputSource => {
+  const pressed = new Set<string>();
+
+  return {
+    attach: () => {
+      const onKeyDown = (e: KeyboardEvent) => {
+        if (e.defaultPrevented || isEditable(e.target) || e.metaKey || e.ctrlKey) return;
+        pressed.add(e.code);
+      };
+      const onKeyUp = (e: KeyboardEvent) => pressed.delete(e.code);
+      // Keys released while the window is in the background never send keyup
+      const onBlur = () => pressed.clear();
+
+      window.addEventListener("keydown", onKeyDown);
+      window.addEventListener("keyup", onKeyUp);
+      window.addEventListener("blur", onBlur);
+
+      return () => {
+        window.removeEventListener("keydown", onKeyDown);
+        window.removeEventListener("keyup", onKeyUp);
+        window.removeEventListener("blur", onBlur);
+        pressed.clear();
+      };
+    },
+    poll: (target) => {
+      if (!pressed.size) return;
+
+      for (const { action } of INPUT_ACTIONS) {
+        if (!bindings[action].some((code) => pressed.has(code))) continue;
+        const [x, y, z] = ACTION_VECTORS[action];
+        target.targetVel.x += x * KEYBOARD_SPEED;
+        target.targetVel.y += y * KEYBOARD_SPEED;
+        target.targetVel.z += z * KEYBOARD_SPEED;
+      }
+    },
+  };
+};
+
+/** Mouse drag to pan, wheel to zoom, and hover position for the drift. */
+export const createPointerSource = (): InputSource => ({
+  attach: (target, element) => {
+    let lastMouse = { x: 0, y: 0 };
+    element.style.cursor = "grab";
+
+    const setCursor = (cursor: string) => {
+      element.style.cursor = cursor;
+    };
+
+    const onMouseDown = (e: MouseEvent) => {
+      // Just start dragging - keep drift frozen at current value
+      target.isDragging = true;
+      target.pointerInput = true;
+      lastMouse = { x: e.clientX, y: e.clientY };
+      setCursor("grabbing");
+    };
+
+    const onMouseUp = () => {
+      target.isDragging = false;
+      setCursor("grab");
+    };
+
+    const onMouseLeave = () => {
+      target.mouse = { x: 0, y: 0 };
+      target.isDragging = false;
+      setCursor("grab");
+    };
+
+    const onMouseMove = (e: MouseEvent) => {
+      target.mouse = {
+        x: (e.clientX / window.innerWidth) * 2 - 1,
+        y: -(e.clientY / window.innerHeight) * 2 + 1,
+      };
+
+      if (target.isDragging) {
+        target.targetVel.x -= (e.clientX - lastMouse.x) * 0.025;
+        target.targetVel.y += (e.clientY - lastMouse.y) * 0.025;
+        lastMouse = { x: e.clientX, y: e.clientY };
+      }
+    };
+
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      target.scrollAccum += e.deltaY * 0.006;
+      target.pointerInput = true;
+    };
+
+    element.addEventListener("mousedown", onMouseDown);
+    window.addEventListener("mouseup", onMouseUp);
+    window.addEventListener("mousemove", onMouseMove);
+    element.addEventListener("mouseleave", onMouseLeave);
+    element.addEventListener("wheel", onWheel, { passive: false });
+
+    return () => {
+      element.removeEventListener("mousedown", onMouseDown);
+      window.removeEventListener("mouseup", onMouseUp);
+      window.removeEventListener("mousemove", onMouseMove);
+      element.removeEventListener("mouseleave", onMouseLeave);
+      element.removeEventListener("wheel", onWheel);
+    };
+  },
+});
+
+/** One finger pans, two fingers pinch to zoom. */
+export const createTouchSource = (): InputSource => ({
+  attach: (target, element) => {
+    let lastTouches: Touch[] = [];
+    let lastTouchDist = 0;
+
+    const onTouchStart = (e: TouchEvent) => {
+      e.preventDefault();
+      lastTouches = Array.from(e.touches) as Touch[];
+      lastTouchDist = getTouchDistance(lastTouches);
+      target.pointerInput = true;
+      element.style.cursor = "grabbing";
+    };
+
+    const onTouchMove = (e: TouchEvent) => {
+      e.preventDefault();
+      const touches = Array.from(e.touches) as Touch[];
+
+      if (touches.length === 1 && lastTouches.length >= 1) {
+        const [touch] = touches;
+        const [last] = lastTouches;
+
+        if (touch && last) {
+          target.targetVel.x -= (touch.clientX - last.clientX) * 0.02;
+          target.targetVel.y += (touch.clientY - last.clientY) * 0.02;
+        }
+      } else if (touches.length === 2 && lastTouchDist > 0) {
+        const dist = getTouchDistance(touches);
+        target.scrollAccum += (lastTouchDist - dist) * 0.006;
+        lastTouchDist = dist;
+      }
+
+      lastTouches = touches;
+    };
+
+    const onTouchEnd = (e: TouchEvent) => {
+      lastTouches = Array.from(e.touches) as Touch[];
+      lastTouchDist = getTouchDistance(lastTouches);
+      element.style.cursor = "grab";
+    };
+
+    element.addEventListener("touchstart", onTouchStart, { passive: false });
+    element.addEventListener("touchmove", onTouchMove, { passive: false });
+    element.addEventListener("touchend", onTouchEnd, { passive: false });
+
+    return () => {
+      element.removeEventListener("touchstart", onTouchStart);
+      element.removeEventListener("touchmove", onTouchMove);
+      element.removeEventListener("touchend", onTouchEnd);
+    };
+  },
+});
+
+/** Every connected gamepad with the standard mapping. */
+export const createGamepadSource = (): InputSource => ({
+  poll: (target) => {
+    for (const pad of navigator.getGamepads?.() ?? []) {
+      if (!pad?.connected || pad.mapping !== "standard") continue;
+      applySticks(target, pad.axes[0] ?? 0, pad.axes[1] ?? 0, pad.axes[3] ?? 0);
+    }
+  },
+});
+
+/**
+ * Thumbsticks of WebXR controllers (the "xr-standard" mapping keeps them on axes 2 and 3):
+ * the left hand pans and dollies, the right hand moves up and down. Idle while no session is running.
+ */
+export const createXRControllerSource = (getSession: () => XRSession | null): InputSource => ({
+  poll: (target) => {
+    const session = getSession();
+    if (!session) return;
+
+    for (const source of session.inputSources) {
+      const axes = source.gamepad?.axes;
+      if (!axes || axes.length < 4) continue;
+
+      if (source.handedness === "right") {
+        applySticks(target, 0, 0, axes[3]);
+      } else {
+        applySticks(target, axes[2], axes[3], 0);
+      }
+    }
+  },
+});
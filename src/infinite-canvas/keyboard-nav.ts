@@ -0,0 +1,77 @@
+import type { BatchPlane } from "./plane-batch";
+import type { MediaItem } from "./types";
+
+export type NavDirection = "left" | "right" | "up" | "down";
+
+// Planes fainter than this are still fading in (or out) and not worth jumping to
+const MIN_NAV_OPACITY = 0.3;
+// Sideways offset counts this much more than progress along the arrow's direction
+const OFF_AXIS_WEIGHT = 2;
+// Depth differences count less: neighbours at another depth still read as left / right / up / down
+const DEPTH_WEIGHT = 0.5;
+
+/** Planes faded in and in front of the camera; the camera always looks down -Z. */
+export const getNavigablePlanes = (planes: Iterable<BatchPlane>, camZ: number): BatchPlane[] => {
+  const out: BatchPlane[] = [];
+  for (const plane of planes) {
+    if (plane.fade.current.opacity >= MIN_NAV_OPACITY && plane.position.z < camZ) out.push(plane);
+  }
+  return out;
+};
+
+const distanceSq = (a: BatchPlane, b: { x: number; y: number; z: number }) => {
+  const dx = a.position.x - b.x;
+  const dy = a.position.y - b.y;
+  const dz = (a.position.z - b.z) * DEPTH_WEIGHT;
+  return dx * dx + dy * dy + dz * dz;
+};
+
+/** Nearest plane to `from` whose id is not in `exclude`. */
+export const pickNearestPlane = (
+  candidates: BatchPlane[],
+  from: { x: number; y: number; z: number },
+  exclude: string[]
+): BatchPlane | null => {
+  let best: BatchPlane | null = null;
+  let bestDist = Number.POSITIVE_INFINITY;
+  for (const plane of candidates) {
+    if (exclude.includes(plane.id)) continue;
+    const dist = distanceSq(plane, from);
+    if (dist < bestDist) {
+      best = plane;
+      bestDist = dist;
+    }
+  }
+  return best;
+};
+
+/** Closest plane on the `direction` side of `current`, preferring ones straight across from it. */
+export const pickPlaneInDirection = (
+  candidates: BatchPlane[],
+  current: BatchPlane,
+  direction: NavDirection
+): BatchPlane | null => {
+  let best: BatchPlane | null = null;
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (const plane of candidates) {
+    if (plane.id === current.id) continue;
+
+    const dx = plane.position.x - current.position.x;
+    const dy = plane.position.y - current.position.y;
+    const dz = Math.abs(plane.position.z - current.position.z) * DEPTH_WEIGHT;
+    const along = direction === "left" ? -dx : direction === "right" ? dx : direction === "up" ? dy : -dy;
+    const across = direction === "left" || direction === "right" ? Math.abs(dy) : Math.abs(dx);
+    if (along <= 0) continue;
+
+    const score = along + across * OFF_AXIS_WEIGHT + dz;
+    if (score < bestScore) {
+      best = plane;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/** "Title, artist, year" for the live region, with placeholders for missing metadata. */
+export const describeMedia = (media: MediaItem): string =>
+  [media.title ?? "Untitled", media.artist ?? "unknown artist", media.year ?? "undated"].join(", ");
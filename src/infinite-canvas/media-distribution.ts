@@ -0,0 +1,137 @@
+import { hashString, seededRandom } from "~/src/utils";
+import type { LayoutParams } from "./types";
+
+/**
+ * "balanced" distribution: every plane slot (chunk cx, cy, cz and index i within it) gets
+ *
+ *   perm[(itemsPerChunk * cx + b * cy + c * cz + i) mod N]
+ *
+ * where perm is a seeded shuffle of the N media items. Stepping along x walks the whole shuffled
+ * collection, so every item is shown equally often. The multipliers b and c are searched so that no
+ * two slots within `uniqueRadius` chunks of each other land on the same item.
+ */
+
+type Lattice = { b: number; c: number; radius: number };
+
+// Collections this small have few enough (b, c) pairs to try them all
+const EXHAUSTIVE_PAIRS = 4096;
+// Random (b, c) pairs tried per radius in larger collections before settling for a smaller one
+const LATTICE_CANDIDATES = 512;
+
+const latticeCache = new Map<string, Lattice>();
+const permutationCache = new Map<number, number[]>();
+
+const collidesWithin = (n: number, k: number, b: number, c: number, radius: number): boolean => {
+  for (let dx = -radius; dx <= radius; dx++) {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dz = -radius; dz <= radius; dz++) {
+        for (let di = 1 - k; di < k; di++) {
+          if (dx === 0 && dy === 0 && dz === 0 && di === 0) continue;
+          if ((((k * dx + b * dy + c * dz + di) % n) + n) % n === 0) return true;
+        }
+      }
+    }
+  }
+  return false;
+};
+
+/**
+ * Multipliers with no collision within `radius`, or null. Small collections are searched exhaustively;
+ * larger ones try one widely spread pair first, then a fixed number of seeded random
+ * pairs, so the search stays cheap enough for the main thread whatever the collection size.
+ */
+const findLattice = (n: number, k: number, radius: number): Lattice | null => {
+  const candidates: [number, number][] = [];
+  if ((n - 1) ** 2 <= EXHAUSTIVE_PAIRS) {
+    for (let b = 1; b < n; b++) {
+      for (let c = 1; c < n; c++) candidates.push([b, c]);
+    }
+  } else {
+    const stride = 2 * k * (radius + 1);
+    candidates.push([stride % n, (stride * (2 * radius + 1)) % n]);
+    const seed = hashString(`lattice:${n}:${k}:${radius}`);
+    for (let i = 0; i < LATTICE_CANDIDATES; i++) {
+      candidates.push([
+        1 + Math.floor(seededRandom(seed + 2 * i) * (n - 1)),
+        1 + Math.floor(seededRandom(seed + 2 * i + 1) * (n - 1)),
+      ]);
+    }
+  }
+
+  for (const [b, c] of candidates) {
+    if (!collidesWithin(n, k, b, c, radius)) return { b, c, radius };
+  }
+  return null;
+};
+
+/**
+ * Lattice for `n` items, widest radius first. A radius-r neighbourhood holds (r + 1)^3 mutually
+ * adjacent chunks, so collections smaller than that times `itemsPerChunk` fall back to a smaller radius,
+ * as do collections where no multipliers turn up among the candidates tried.
+ */
+const getLattice = (n: number, k: number, uniqueRadius: number): Lattice => {
+  const key = `${n}:${k}:${uniqueRadius}`;
+  const cached = latticeCache.get(key);
+  if (cached) return cached;
+
+  let lattice: Lattice | null = null;
+  for (let r = uniqueRadius; r >= 0 && !lattice; r--) {
+    if ((r + 1) ** 3 * k > n) continue;
+    lattice = findLattice(n, k, r);
+  }
+  // Fewer items than slots in one chunk: repeats can't be avoided, keep the even coverage
+  lattice ??= { b: 1, c: 1, radius: -1 };
+
+  latticeCache.set(key, lattice);
+  return lattice;
+};
+
+const getPermutation = (n: number): number[] => {
+  const cached = permutationCache.get(n);
+  if (cached) return cached;
+
+  const perm = Array.from({ length: n }, (_, i) => i);
+  const seed = hashString(`balanced:${n}`);
+  for (let i = n - 1; i > 0; i--) {
+    const j = Math.floor(seededRandom(seed + i) * (i + 1));
+    [perm[i], perm[j]] = [perm[j], perm[i]];
+  }
+
+  permutationCache.set(n, perm);
+  return perm;
+};
+
+/** Radius actually guaranteed for a collection of `mediaCount` items; -1 when even a single chunk repeats. */
+export const getEffectiveUniqueRadius = (params: LayoutParams, mediaCount: number): number =>
+  mediaCount ? getLattice(mediaCount, params.itemsPerChunk, params.uniqueRadius).radius : -1;
+
+/** Media index for plane `index` of a chunk. `random` is the chunk's own seeded value for that plane. */
+export const pickMediaIndex = (
+  cx: number,
+  cy: number,
+  cz: number,
+  index: number,
+  random: number,
+  params: LayoutParams,
+  mediaCount: number
+): number => {
+  if (params.distribution === "random" || !mediaCount) {
+    return Math.floor(random * 1_000_000);
+  }
+
+  const { b, c } = getLattice(mediaCount, params.itemsPerChunk, params.uniqueRadius);
+  const slot = (params.itemsPerChunk * cx + b * cy + c * cz + index) % mediaCount;
+  return getPermutation(mediaCount)[(slot + mediaCount) % mediaCount];
+};
+
+/**
+ * Media index for the `index`-th plane along a layout's path (corridor walls, spiral, sphere).
+ * Balanced paths walk the shuffled collection, so no item repeats within `mediaCount` steps.
+ */
+export const pickSequenceMediaIndex = (index: number, random: number, params: LayoutParams, mediaCount: number): number => {
+  if (params.distribution === "random" || !mediaCount) {
+    return Math.floor(random * 1_000_000);
+  }
+
+  return getPermutation(mediaCount)[((index % mediaCount) + mediaCount) % mediaCount];
+};
@@ -0,0 +1,380 @@
+import * as THREE from "three";
+import { ANALYSIS_SIZE, analyzePixels } from "./color-analysis";
+import type { MediaItem, PaletteSwatch } from "./types";
+
+/** Moving pixels for one media item, shared by every plane showing it. */
+export type MediaPlayback = {
+  item: MediaItem;
+  texture: THREE.Texture;
+  /** A frame has been drawn into `texture`; until then planes keep showing their still layer. */
+  ready: boolean;
+  playing: boolean;
+  /** Largest screen share of a plane wanting playback this frame, reset by `updatePlaybacks`. */
+  demand: number;
+  refs: number;
+  lastSample: number;
+  /** Set once the media couldn't be loaded or its pixels read; planes keep their still layer. */
+  failed: boolean;
+  start: () => void;
+  stop: () => void;
+  dispose: () => void;
+  /** What to read the current frame from, for color sampling. */
+  source: CanvasImageSource;
+};
+
+export type FrameColors = { dominant: THREE.Color; palette: PaletteSwatch[] };
+
+const VIDEO_EXTENSIONS: Record<string, string> = {
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  webm: "video/webm",
+  mov: "video/quicktime",
+};
+const ANIMATED_EXTENSIONS: Record<string, string> = { gif: "image/gif", webp: "image/webp" };
+
+// Planes covering less of the screen than this stay on their still frame
+const MIN_PLAY_COVERAGE = 0.04;
+// Decoders running at once; the largest planes win
+const MAX_PLAYING = 4;
+// Resample the dominant color and palette of playing media this often
+const COLOR_SAMPLE_MS = 500;
+// Seek this far in before grabbing a poster, past the black first frame many clips open on
+const POSTER_TIME = 0.5;
+
+const playbacks = new Map<string, MediaPlayback>();
+const frameColors = new Map<string, FrameColors>();
+const pendingFrames = new Map<string, Promise<HTMLCanvasElement>>();
+// Items that failed to load, and GIF and WebP files with a single frame; they never play
+const unplayable = new Set<string>();
+
+let sampleCtx: CanvasRenderingContext2D | null = null;
+
+const getExtension = (url: string): string => url.split(/[?#]/)[0].split(".").pop()?.toLowerCase() ?? "";
+
+/** MIME type of an item: its `type`, else guessed from the url extension. Empty when unknown. */
+const getMediaType = (item: MediaItem): string => {
+  if (item.type) return item.type;
+  const ext = getExtension(item.url);
+  return VIDEO_EXTENSIONS[ext] ?? ANIMATED_EXTENSIONS[ext] ?? "";
+};
+
+export const isVideoMedia = (item: MediaItem): boolean => getMediaType(item).startsWith("video/");
+
+/** GIF and WebP items, which may or may not turn out to have more than one frame. */
+export const isAnimatedImage = (item: MediaItem): boolean => Object.values(ANIMATED_EXTENSIONS).includes(getMediaType(item));
+
+/** Videos and animated images, until they fail to load or turn out to be still. */
+export const isPlayableMedia = (item: MediaItem): boolean =>
+  (isVideoMedia(item) || isAnimatedImage(item)) && !unplayable.has(item.url);
+
+const isCrossOrigin = (url: string): boolean => new URL(url, window.location.href).origin !== window.location.origin;
+
+/**
+ * Cross-origin videos are requested with CORS: WebGL refuses frames of any that aren't approved, so
+ * servers that don't send CORS headers fail the load rather than leave planes blank.
+ */
+const createVideo = (url: string): HTMLVideoElement => {
+  const video = document.createElement("video");
+  if (isCrossOrigin(url)) video.crossOrigin = "anonymous";
+  video.muted = true;
+  video.loop = true;
+  video.playsInline = true;
+  video.src = url;
+  return video;
+};
+
+const unloadVideo = (video: HTMLVideoElement) => {
+  video.pause();
+  video.removeAttribute("src");
+  video.load();
+};
+
+/**
+ * One still frame of a video, at its native size, for the texture layers and upload thumbnails.
+ * Shared by every ladder level waiting on the same url.
+ */
+export const captureVideoFrame = (url: string): Promise<HTMLCanvasElement> => {
+  let pending = pendingFrames.get(url);
+  if (pending) return pending;
+
+  pending = new Promise<HTMLCanvasElement>((resolve, reject) => {
+    const video = createVideo(url);
+    video.preload = "auto";
+
+    const onLoaded = () => {
+      video.currentTime = Math.min(POSTER_TIME, video.duration / 2 || 0);
+    };
+    const onSeeked = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      canvas.getContext("2d")?.drawImage(video, 0, 0);
+      unloadVideo(video);
+      resolve(canvas);
+    };
+
+    video.addEventListener("loadeddata", onLoaded, { once: true });
+    video.addEventListener("seeked", onSeeked, { once: true });
+    video.addEventListener(
+      "error",
+      () => {
+        unloadVideo(video);
+        reject(new Error(`Video frame capture failed: ${url}`));
+      },
+      { once: true }
+    );
+  }).finally(() => pendingFrames.delete(url));
+
+  pendingFrames.set(url, pending);
+  return pending;
+};
+
+const markFailed = (playback: MediaPlayback) => {
+  playback.failed = true;
+  playback.ready = false;
+  unplayable.add(playback.item.url);
+};
+
+const createVideoPlayback = (item: MediaItem): MediaPlayback => {
+  const video = createVideo(item.url);
+  video.preload = "metadata";
+  const texture = new THREE.VideoTexture(video);
+  texture.colorSpace = THREE.SRGBColorSpace;
+
+  const playback: MediaPlayback = {
+    item,
+    texture,
+    ready: false,
+    playing: false,
+    demand: 0,
+    refs: 0,
+    lastSample: 0,
+    failed: false,
+    source: video,
+    start: () => {
+      video.play().catch((err) => {
+        // Interrupted by a pause is expected while planes come and go
+        if (err instanceof DOMException && err.name === "AbortError") return;
+        console.error("Video playback failed:", item.url, err);
+      });
+    },
+    stop: () => video.pause(),
+    dispose: () => {
+      unloadVideo(video);
+      texture.dispose();
+    },
+  };
+  video.addEventListener("playing", () => {
+    playback.ready = true;
+  });
+  video.addEventListener(
+    "error",
+    () => {
+      // Includes CORS refusals; planes drop the playback and keep their still layer
+      if (!video.getAttribute("src")) return;
+      console.error("Video load failed:", item.url);
+      markFailed(playback);
+    },
+    { once: true }
+  );
+  return playback;
+};
+
+/**
+ * Animated GIF and WebP: three's `VideoTexture` only takes video elements, so frames are decoded with
+ * WebCodecs' `ImageDecoder` into a canvas instead. Without it the plane just keeps its still layer.
+ * Files are streamed into the decoder, so a still one is dropped after its header without a full
+ * second download, and not played again.
+ */
+const createAnimatedPlayback = (item: MediaItem): MediaPlayback => {
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d");
+  const texture = new THREE.CanvasTexture(canvas);
+  texture.colorSpace = THREE.SRGBColorSpace;
+
+  let decoder: ImageDecoder | null = null;
+  let frameIndex = 0;
+  let timer = 0;
+  // A decode is in flight or scheduled
+  let running = false;
+  let disposed = false;
+
+  const playback: MediaPlayback = {
+    item,
+    texture,
+    ready: false,
+    playing: false,
+    demand: 0,
+    refs: 0,
+    lastSample: 0,
+    failed: false,
+    source: canvas,
+    start: () => {
+      if (running || !decoder) return;
+      running = true;
+      showNextFrame();
+    },
+    // A decode already in flight sees `playing` is off and doesn't schedule the next one
+    stop: () => {
+      if (!timer) return;
+      clearTimeout(timer);
+      timer = 0;
+      running = false;
+    },
+    dispose: () => {
+      disposed = true;
+      playback.stop();
+      decoder?.close();
+      texture.dispose();
+    },
+  };
+
+  const showNextFrame = async () => {
+    const current = decoder;
+    if (!current || disposed) {
+      running = false;
+      return;
+    }
+
+    try {
+      const { image } = await current.decode({ frameIndex });
+      const frameCount = current.tracks.selectedTrack?.frameCount ?? 1;
+      frameIndex = (frameIndex + 1) % frameCount;
+
+      if (canvas.width !== image.displayWidth || canvas.height !== image.displayHeight) {
+        canvas.width = image.displayWidth;
+        canvas.height = image.displayHeight;
+        // Resizing needs a new GPU texture
+        texture.dispose();
+      }
+      ctx?.drawImage(image, 0, 0);
+      texture.needsUpdate = true;
+      playback.ready = true;
+
+      // Durations are in microseconds; browsers clamp near-zero GIF delays the same way
+      const delay = Math.max(20, (image.duration ?? 100_000) / 1000);
+      image.close();
+      if (playback.playing && !disposed) {
+        timer = window.setTimeout(() => {
+          timer = 0;
+          showNextFrame();
+        }, delay);
+      } else {
+        running = false;
+      }
+    } catch (err) {
+      running = false;
+      // Closing the decoder rejects the decode in flight
+      if (!disposed) console.error("Animated image decode failed:", item.url, err);
+    }
+  };
+
+  const type = getMediaType(item);
+  if (typeof ImageDecoder !== "undefined") {
+    ImageDecoder.isTypeSupported(type)
+      .then(async (supported) => {
+        if (!supported || disposed) return;
+        const response = await fetch(item.url);
+        if (!response.body || disposed) return;
+
+        const next = new ImageDecoder({ data: response.body, type });
+        await next.tracks.ready;
+        if (!next.tracks.selectedTrack?.animated) unplayable.add(item.url);
+        if (disposed || unplayable.has(item.url)) {
+          // Also cancels the rest of the download
+          next.close();
+          return;
+        }
+        await next.completed;
+        if (disposed) {
+          next.close();
+          return;
+        }
+        decoder = next;
+        if (playback.playing) playback.start();
+      })
+      .catch((err) => {
+        if (disposed) return;
+        console.error("Animated image load failed:", item.url, err);
+        markFailed(playback);
+      });
+  }
+
+  return playback;
+};
+
+/** Playback for an item, created on first use. Pair each call with `releasePlayback`. */
+export const acquirePlayback = (item: MediaItem): MediaPlayback => {
+  let playback = playbacks.get(item.url);
+  if (!playback) {
+    playback = isVideoMedia(item) ? createVideoPlayback(item) : createAnimatedPlayback(item);
+    playbacks.set(item.url, playback);
+  }
+  playback.refs++;
+  return playback;
+};
+
+/** Drop one reference; playback with no planes left stops and frees its decoder and texture. */
+export const releasePlayback = (playback: MediaPlayback): void => {
+  playback.refs--;
+  if (playback.refs > 0) return;
+
+  playback.dispose();
+  playbacks.delete(playback.item.url);
+  frameColors.delete(playback.item.url);
+};
+
+/** Colors of the frame currently playing, which take precedence over the item's still colors. */
+export const getFrameColors = (item: MediaItem): FrameColors | null => frameColors.get(item.url) ?? null;
+
+const sampleFrame = (playback: MediaPlayback) => {
+  if (!sampleCtx) {
+    const canvas = document.createElement("canvas");
+    canvas.width = ANALYSIS_SIZE;
+    canvas.height = ANALYSIS_SIZE;
+    sampleCtx = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  if (!sampleCtx) return;
+
+  try {
+    sampleCtx.clearRect(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+    sampleCtx.drawImage(playback.source, 0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+    const { dominant, palette } = analyzePixels(sampleCtx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE).data);
+    frameColors.set(playback.item.url, { dominant: new THREE.Color(...dominant), palette });
+  } catch (err) {
+    console.error("Frame color sampling failed:", playback.item.url, err);
+    markFailed(playback);
+  }
+};
+
+/**
+ * Once per frame, after planes have reported their `demand`: play the media covering the most of the
+ * screen (nothing when `enabled` is false), pause the rest, and resample colors of what is playing.
+ */
+export const updatePlaybacks = (enabled: boolean, now: number): void => {
+  const wanted = enabled
+    ? [...playbacks.values()]
+        .filter((p) => p.demand >= MIN_PLAY_COVERAGE)
+        .sort((a, b) => b.demand - a.demand)
+        .slice(0, MAX_PLAYING)
+    : [];
+
+  for (const playback of playbacks.values()) {
+    const play = wanted.includes(playback);
+    playback.demand = 0;
+
+    if (play !== playback.playing) {
+      playback.playing = play;
+      if (play) {
+        playback.start();
+      } else {
+        playback.stop();
+      }
+    }
+
+    if (play && playback.ready && !playback.failed && now - playback.lastSample > COLOR_SAMPLE_MS) {
+      playback.lastSample = now;
+      sampleFrame(playback);
+    }
+  }
+};
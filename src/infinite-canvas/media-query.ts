@@ -0,0 +1,127 @@
+import { getCategoryFromColor, normalizeColorCategory } from "./color-category";
+import type { ColorCategory } from "./color-category";
+import { getDominantColor } from "./texture-manager";
+import type { MediaItem } from "./types";
+
+export type AspectFilter = "landscape" | "portrait" | "square";
+
+export const ASPECT_FILTERS: AspectFilter[] = ["landscape", "portrait", "square"];
+
+/** Criteria for picking artworks out of the collection. All set fields must match. */
+export type MediaQuery = {
+  url?: string;
+  /** Free text matched against title, artist and the text values of `meta`. */
+  text?: string;
+  artist?: string;
+  title?: string;
+  /** Inclusive year range; items without a parseable year never match a range. */
+  yearMin?: number;
+  yearMax?: number;
+  aspect?: AspectFilter;
+  /** Color family name, e.g. "blue" or "pinkRed"; see `normalizeColorCategory`. */
+  color?: string;
+  /** `MediaItem.meta` fields that must contain the given text, e.g. `{ camera: "iphone" }`. */
+  meta?: Record<string, string>;
+};
+
+// Width/height ratios within this band count as square
+const SQUARE_TOLERANCE = 0.1;
+
+const includesText = (value: string | undefined, needle: string): boolean =>
+  !!value && value.toLowerCase().includes(needle.trim().toLowerCase());
+
+/** Color family of an item, from its manifest color or the one sampled at runtime. */
+export const getMediaColorCategory = (item: MediaItem): ColorCategory | null => {
+  const color = getDominantColor(item);
+  return color ? getCategoryFromColor(color) : null;
+};
+
+/** First four-digit year in a free-form date such as "c. 1889" or "1885-1890". */
+export const parseYear = (year: string | undefined): number | null => {
+  const match = year?.match(/\d{4}/);
+  return match ? Number(match[0]) : null;
+};
+
+export const getAspectFilter = (item: MediaItem): AspectFilter => {
+  const ratio = item.width / item.height;
+  if (Math.abs(ratio - 1) <= SQUARE_TOLERANCE) return "square";
+  return ratio > 1 ? "landscape" : "portrait";
+};
+
+const matchesMetaText = (item: MediaItem, needle: string): boolean =>
+  Object.values(item.meta ?? {}).some((value) => typeof value === "string" && includesText(value, needle));
+
+// Keys are matched case-insensitively: the assistant writes "Camera" as readily as "camera"
+const getMetaValue = (item: MediaItem, key: string): string | number | undefined =>
+  Object.entries(item.meta ?? {}).find(([k]) => k.toLowerCase() === key.toLowerCase())?.[1];
+
+const getMetaFilters = (query: MediaQuery): [string, string][] =>
+  Object.entries(query.meta ?? {}).filter(([, value]) => value.trim());
+
+/** "camera: iphone; capturedAt: 2023" as a `MediaQuery.meta`; undefined when it has no pairs. */
+export const parseMetaFilter = (raw: string | undefined): Record<string, string> | undefined => {
+  const pairs = (raw ?? "")
+    .split(";")
+    .map((pair) => pair.split(":"))
+    .filter(([key, ...value]) => key.trim() && value.join(":").trim())
+    .map(([key, ...value]) => [key.trim(), value.join(":").trim()]);
+  return pairs.length ? Object.fromEntries(pairs) : undefined;
+};
+
+export const isEmptyQuery = (query: MediaQuery): boolean =>
+  !query.url &&
+  !query.text?.trim() &&
+  !query.artist?.trim() &&
+  !query.title?.trim() &&
+  query.yearMin === undefined &&
+  query.yearMax === undefined &&
+  !query.aspect &&
+  !query.color?.trim() &&
+  !getMetaFilters(query).length;
+
+export const matchesQuery = (item: MediaItem, query: MediaQuery): boolean => {
+  if (query.url && item.url !== query.url) return false;
+  if (
+    query.text?.trim() &&
+    !includesText(item.title, query.text) &&
+    !includesText(item.artist, query.text) &&
+    !matchesMetaText(item, query.text)
+  ) {
+    return false;
+  }
+  if (query.artist?.trim() && !includesText(item.artist, query.artist)) return false;
+  if (query.title?.trim() && !includesText(item.title, query.title)) return false;
+  if (query.yearMin !== undefined || query.yearMax !== undefined) {
+    const year = parseYear(item.year);
+    if (year === null) return false;
+    if (query.yearMin !== undefined && year < query.yearMin) return false;
+    if (query.yearMax !== undefined && year > query.yearMax) return false;
+  }
+  if (query.aspect && getAspectFilter(item) !== query.aspect) return false;
+  if (query.color?.trim()) {
+    const wanted = normalizeColorCategory(query.color);
+    if (!wanted || getMediaColorCategory(item) !== wanted) return false;
+  }
+  for (const [key, needle] of getMetaFilters(query)) {
+    const value = getMetaValue(item, key);
+    if (value === undefined || !includesText(String(value), needle)) return false;
+  }
+  return true;
+};
+
+export const filterMedia = (media: MediaItem[], query: MediaQuery): MediaItem[] =>
+  media.filter((item) => matchesQuery(item, query));
+
+/** Short human-readable summary, e.g. `artist "monet", 1870-1900, landscape`. */
+export const describeQuery = (query: MediaQuery): string => {
+  const parts: string[] = [];
+  if (query.url) parts.push(query.url);
+  if (query.text?.trim()) parts.push(`"${query.text.trim()}"`);
+  if (query.artist?.trim()) parts.push(`artist "${query.artist.trim()}"`);
+  if (query.title?.trim()) parts.push(`title "${query.title.trim()}"`);
+  if (query.yearMin !== undefined || query.yearMax !== undefined) parts.push(`${query.yearMin ?? "…"}-${query.yearMax ?? "…"}`);
+  if (query.aspect) parts.push(query.aspect);
+  if (query.color?.trim()) parts.push(query.color.trim());
+  for (const [key, value] of getMetaFilters(query)) parts.push(`${key} "${value.trim()}"`);
+  return parts.length ? parts.join(", ") : "everything";
+};
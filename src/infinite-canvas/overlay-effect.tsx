@@ -28,16 +28,19 @@ export function OverlayEffect({
   width,
   height,
   opacityRef,
+  particleScale = 1,
 }: {
   overlay: PlaneOverlay;
   width: number;
   height: number;
   opacityRef: React.RefObject<{ opacity: number }>;
+  /** Quality multiplier on the particle count. */
+  particleScale?: number;
 }) {
   const pointsRef = React.useRef<THREE.Points>(null);
   const timeRef = React.useRef(0);
 
-  const count = Math.floor(overlay.density * PARTICLE_COUNT_MULTIPLIER);
+  const count = Math.floor(overlay.density * PARTICLE_COUNT_MULTIPLIER * particleScale);
   const basePositions = React.useMemo(() => generateParticles(count, width, height), [count, width, height]);
 
   const geometry = React.useMemo(() => {
@@ -0,0 +1,683 @@
+import { useFrame, useThree } from "@react-three/fiber";
+import type { ThreeEvent } from "@react-three/fiber";
+import * as React from "react";
+import * as THREE from "three";
+import { clamp, lerp } from "~/src/utils";
+import {
+  CHUNK_FADE_MARGIN,
+  CLICK_DRAG_THRESHOLD,
+  DEPTH_FADE_END,
+  DEPTH_FADE_START,
+  INVIS_THRESHOLD,
+  RENDER_DISTANCE,
+} from "./constants";
+import { releasePlaneZoom, updatePlaneZoom } from "./deep-zoom";
+import type { PlaneZoom } from "./deep-zoom";
+import { acquirePlayback, isPlayableMedia, releasePlayback, updatePlaybacks } from "./media-playback";
+import type { MediaPlayback } from "./media-playback";
+import {
+  LAYER_SIZE,
+  createLayerStore,
+  disposeLayerStore,
+  getLayerLevelCap,
+  releaseLayer,
+  requestLayerLevel,
+  retainLayer,
+  runBlits,
+} from "./plane-layers";
+import type { LayerPage, LayerStore, MediaLayer } from "./plane-layers";
+import {
+  acquireTexture,
+  getDominantColor,
+  getPaletteColors,
+  getResolutionLadder,
+  pickTextureLevel,
+  releaseTexture,
+} from "./texture-manager";
+import type { ArtworkSelection, MediaItem, PlaneData } from "./types";
+import { getPlaneDisplaySize } from "./utils";
+
+export type CameraGridState = {
+  cx: number;
+  cy: number;
+  cz: number;
+  camZ: number;
+};
+
+export type FocusState = {
+  coverage: number;
+  color: THREE.Color;
+  /** Palette of the focused artwork once sampled; shader backgrounds are built from it. */
+  palette: THREE.Color[] | null;
+  effectBlend: number;
+  planeId: string | null;
+  url: string | null;
+};
+
+type PendingLevel = { level: number; onLoad: (texture: THREE.Texture) => void };
+
+/** Full-resolution texture for a plane drawn larger than a layer, shown on its own mesh. */
+type PlaneDetail = { level: number; texture: THREE.Texture | null; pending: PendingLevel | null };
+
+/** A plane placed by a chunk. All planes are drawn by `PlaneBatch`; chunks only add and remove them. */
+export type BatchPlane = {
+  id: string;
+  media: MediaItem;
+  position: THREE.Vector3;
+  rotation?: THREE.Euler;
+  /** Drawn size, matching the media's aspect ratio. */
+  size: THREE.Vector3;
+  matrix: THREE.Matrix4;
+  cx: number;
+  cy: number;
+  cz: number;
+  /** Shared with the plane's frame and overlay decorations. */
+  fade: React.RefObject<{ opacity: number }>;
+  visible: boolean;
+  frame: number;
+  lodFrame: number;
+  layer: MediaLayer | null;
+  detail: PlaneDetail | null;
+  /** Video or animated frames, shown on the plane's own mesh once playing. */
+  playback: MediaPlayback | null;
+  /** IIIF tiles of the region on screen, drawn over the plane once zoomed in past its largest image. */
+  zoom: PlaneZoom | null;
+};
+
+export type PlaneBatchStore = {
+  planes: Set<BatchPlane>;
+  layers: LayerStore;
+};
+
+type PageBatch = {
+  page: LayerPage;
+  opaque: THREE.InstancedMesh;
+  fading: THREE.InstancedMesh;
+  /** Plane drawn by each instance this frame, for picking. */
+  opaquePlanes: BatchPlane[];
+  fadingPlanes: BatchPlane[];
+};
+
+type DetailMesh = { mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>; plane: BatchPlane | null };
+
+type SelectHandler = (selection: ArtworkSelection) => void;
+
+const PLANE_GEOMETRY = new THREE.PlaneGeometry(1, 1);
+
+// Instances per mesh; a page only holds PAGE_LAYERS items, but each can repeat across many chunks
+const MAX_INSTANCES = 4096;
+// Re-evaluate each plane's texture resolution this often
+const LOD_CHECK_FRAMES = 10;
+// Only leave the full-resolution mesh once the plane needs less than this share of a layer
+const DETAIL_HYSTERESIS = 0.75;
+// Video and animated planes shorter than this on screen don't get a decoder at all
+const PLAYBACK_MIN_TEXELS = 128;
+
+const PLANE_VERTEX_SHADER = /* glsl */ `
+  #include <common>
+  #include <fog_pars_vertex>
+
+  attribute float instanceOpacity;
+  attribute float instanceLayer;
+  varying vec2 vUv;
+  varying float vOpacity;
+  varying float vLayer;
+
+  void main() {
+    vUv = uv;
+    vOpacity = instanceOpacity;
+    vLayer = instanceLayer;
+    vec4 mvPosition = modelViewMatrix * instanceMatrix * vec4(position, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    #include <fog_vertex>
+  }
+`;
+
+const PLANE_FRAGMENT_SHADER = /* glsl */ `
+  #include <common>
+  #include <fog_pars_fragment>
+
+  uniform sampler2DArray uLayers;
+  varying vec2 vUv;
+  varying float vOpacity;
+  varying float vLayer;
+
+  void main() {
+    // Layers hold sRGB-encoded texels, see plane-layers
+    vec4 texel = sRGBTransferEOTF(texture(uLayers, vec3(vUv, vLayer)));
+    gl_FragColor = vec4(texel.rgb, texel.a * vOpacity);
+    #include <colorspace_fragment>
+    #include <fog_fragment>
+  }
+`;
+
+const _projMin = new THREE.Vector3();
+const _projMax = new THREE.Vector3();
+const _corner = new THREE.Vector3();
+const _quaternion = new THREE.Quaternion();
+const PLANE_CORNERS = [
+  [-1, -1],
+  [1, -1],
+  [1, 1],
+  [-1, 1],
+] as const;
+
+/** Project a plane's bounding box into NDC, leaving it in `_projMin` / `_projMax`. */
+const projectPlane = (position: THREE.Vector3, scale: THREE.Vector3, rotation: THREE.Euler | undefined, camera: THREE.Camera) => {
+  const halfW = scale.x / 2;
+  const halfH = scale.y / 2;
+
+  if (!rotation) {
+    _projMin.set(position.x - halfW, position.y - halfH, position.z).project(camera);
+    _projMax.set(position.x + halfW, position.y + halfH, position.z).project(camera);
+  } else {
+    _projMin.set(Number.POSITIVE_INFINITY, Number.POSITIVE_INFINITY, 0);
+    _projMax.set(Number.NEGATIVE_INFINITY, Number.NEGATIVE_INFINITY, 0);
+    for (const [sx, sy] of PLANE_CORNERS) {
+      _corner
+        .set(sx * halfW, sy * halfH, 0)
+        .applyEuler(rotation)
+        .add(position)
+        .project(camera);
+      _projMin.min(_corner);
+      _projMax.max(_corner);
+    }
+  }
+};
+
+/** Fraction of the screen covered by the box from the last `projectPlane`. */
+const getProjectedCoverage = () => {
+  const w = clamp(_projMax.x, -1, 1) - clamp(_projMin.x, -1, 1);
+  const h = clamp(_projMax.y, -1, 1) - clamp(_projMin.y, -1, 1);
+  return (Math.abs(w) * Math.abs(h)) / 4;
+};
+
+/**
+ * Texture height needed to draw the box from the last `projectPlane` at one texel per device pixel.
+ * Capped so planes crossing the camera plane don't project to absurd sizes.
+ */
+const getProjectedTexelHeight = (aspect: number, bufferWidth: number, bufferHeight: number) => {
+  const h = ((_projMax.y - _projMin.y) / 2) * bufferHeight;
+  const w = ((_projMax.x - _projMin.x) / 2) * bufferWidth;
+  return Math.min(Math.max(h, w / aspect), bufferHeight * 2);
+};
+
+export const createPlaneBatchStore = (): PlaneBatchStore => ({ planes: new Set(), layers: createLayerStore() });
+
+export const createBatchPlane = (plane: PlaneData, media: MediaItem, cx: number, cy: number, cz: number): BatchPlane => {
+  const { width, height } = getPlaneDisplaySize(plane, media);
+  const size = new THREE.Vector3(width, height, 1);
+  _quaternion.setFromEuler(plane.rotation ?? new THREE.Euler());
+
+  return {
+    id: plane.id,
+    media,
+    position: plane.position,
+    rotation: plane.rotation,
+    size,
+    matrix: new THREE.Matrix4().compose(plane.position, _quaternion, size),
+    cx,
+    cy,
+    cz,
+    fade: { current: { opacity: 0 } },
+    visible: false,
+    frame: 0,
+    // Staggered so planes don't all re-check on the same frame
+    lodFrame: Math.floor(Math.random() * LOD_CHECK_FRAMES),
+    layer: null,
+    detail: null,
+    playback: null,
+    zoom: null,
+  };
+};
+
+export const getPlaneSelection = (plane: BatchPlane): ArtworkSelection => ({
+  planeId: plane.id,
+  media: plane.media,
+  position: plane.position,
+  width: plane.size.x,
+  height: plane.size.y,
+});
+
+/** Swap the plane's full-resolution texture to `level` once loaded, keeping the current one meanwhile. */
+const requestDetail = (plane: BatchPlane, level: number) => {
+  plane.detail ??= { level: -1, texture: null, pending: null };
+  const detail = plane.detail;
+  if (level === (detail.pending?.level ?? detail.level)) return;
+
+  if (detail.pending) releaseTexture(plane.media, detail.pending.level, detail.pending.onLoad);
+  detail.pending = null;
+  if (level === detail.level) return;
+
+  const pending: PendingLevel = {
+    level,
+    onLoad: (texture) => {
+      if (detail.pending !== pending) return;
+      detail.pending = null;
+
+      const previous = detail.level;
+      detail.level = level;
+      detail.texture = texture;
+      if (previous >= 0) releaseTexture(plane.media, previous);
+    },
+  };
+  detail.pending = pending;
+  acquireTexture(plane.media, level, pending.onLoad);
+};
+
+const releaseDetail = (plane: BatchPlane) => {
+  const { detail } = plane;
+  if (!detail) return;
+
+  if (detail.pending) releaseTexture(plane.media, detail.pending.level, detail.pending.onLoad);
+  if (detail.level >= 0) releaseTexture(plane.media, detail.level);
+  plane.detail = null;
+};
+
+const releasePlanePlayback = (plane: BatchPlane) => {
+  if (plane.playback) releasePlayback(plane.playback);
+  plane.playback = null;
+};
+
+const releaseZoom = (plane: BatchPlane) => {
+  releasePlaneZoom(plane.zoom);
+  plane.zoom = null;
+};
+
+export const addPlanes = (store: PlaneBatchStore, planes: BatchPlane[]): void => {
+  for (const plane of planes) {
+    plane.layer = retainLayer(store.layers, plane.media);
+    store.planes.add(plane);
+  }
+};
+
+export const removePlanes = (store: PlaneBatchStore, planes: BatchPlane[]): void => {
+  for (const plane of planes) {
+    if (!store.planes.delete(plane)) continue;
+    releaseDetail(plane);
+    releasePlanePlayback(plane);
+    releaseZoom(plane);
+    if (plane.layer) releaseLayer(store.layers, plane.layer);
+    plane.layer = null;
+  }
+};
+
+/**
+ * Pick the layer and full-resolution levels for a plane drawn `texelHeight` device pixels tall.
+ * Layers only ever upgrade; the full-resolution mesh is dropped once the layer is sharp enough.
+ * Video and animated planes large enough to be worth playing also hold on to their playback, and IIIF
+ * planes zoomed in past their largest image fetch tiles of what's on screen.
+ */
+const updatePlaneLevels = (store: PlaneBatchStore, plane: BatchPlane, texelHeight: number, camera: THREE.Camera) => {
+  const layer = plane.layer;
+  if (!layer) return;
+
+  const ladder = getResolutionLadder(plane.media);
+  const cap = getLayerLevelCap(ladder);
+  requestLayerLevel(store.layers, layer, Math.min(pickTextureLevel(ladder, texelHeight, Math.max(layer.level, 0)), cap));
+
+  const threshold = plane.detail ? LAYER_SIZE * DETAIL_HYSTERESIS : LAYER_SIZE;
+  if (ladder[ladder.length - 1].height > LAYER_SIZE && texelHeight > threshold) {
+    requestDetail(plane, Math.max(pickTextureLevel(ladder, texelHeight, plane.detail?.level ?? cap), cap));
+  } else {
+    releaseDetail(plane);
+  }
+
+  if (isPlayableMedia(plane.media) && texelHeight >= PLAYBACK_MIN_TEXELS) {
+    plane.playback ??= acquirePlayback(plane.media);
+  } else {
+    releasePlanePlayback(plane);
+  }
+
+  plane.zoom = updatePlaneZoom(plane.zoom, plane.media, plane.matrix, texelHeight, ladder[ladder.length - 1].height, camera);
+};
+
+const createInstances = (page: LayerPage, depthWrite: boolean): THREE.InstancedMesh => {
+  const geometry = PLANE_GEOMETRY.clone();
+  const opacity = new THREE.InstancedBufferAttribute(new Float32Array(MAX_INSTANCES), 1);
+  const layer = new THREE.InstancedBufferAttribute(new Float32Array(MAX_INSTANCES), 1);
+  opacity.setUsage(THREE.DynamicDrawUsage);
+  layer.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute("instanceOpacity", opacity);
+  geometry.setAttribute("instanceLayer", layer);
+
+  const material = new THREE.ShaderMaterial({
+    uniforms: THREE.UniformsUtils.merge([THREE.UniformsLib.fog]),
+    vertexShader: PLANE_VERTEX_SHADER,
+    fragmentShader: PLANE_FRAGMENT_SHADER,
+    transparent: true,
+    depthWrite,
+    side: THREE.DoubleSide,
+    fog: true,
+  });
+  // Set after merging: cloning would detach the render target's texture
+  material.uniforms.uLayers = { value: page.target.texture };
+
+  const mesh = new THREE.InstancedMesh(geometry, material, MAX_INSTANCES);
+  mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+  mesh.count = 0;
+  // Instances move between frames; nothing to cull against, and bounds are recomputed lazily for picking
+  mesh.frustumCulled = false;
+  // Fading planes blend over the opaque ones
+  mesh.renderOrder = depthWrite ? 0 : 1;
+  return mesh;
+};
+
+const createPageBatch = (page: LayerPage): PageBatch => ({
+  page,
+  opaque: createInstances(page, true),
+  fading: createInstances(page, false),
+  opaquePlanes: [],
+  fadingPlanes: [],
+});
+
+const disposeInstances = (mesh: THREE.InstancedMesh) => {
+  mesh.geometry.dispose();
+  (mesh.material as THREE.Material).dispose();
+  mesh.dispose();
+};
+
+const writeInstance = (mesh: THREE.InstancedMesh, index: number, plane: BatchPlane, opacity: number) => {
+  mesh.instanceMatrix.array.set(plane.matrix.elements, index * 16);
+  (mesh.geometry.getAttribute("instanceOpacity").array as Float32Array)[index] = opacity;
+  (mesh.geometry.getAttribute("instanceLayer").array as Float32Array)[index] = plane.layer?.slot ?? 0;
+};
+
+const commitInstances = (mesh: THREE.InstancedMesh, count: number) => {
+  mesh.count = count;
+  if (!count) return;
+
+  mesh.instanceMatrix.clearUpdateRanges();
+  mesh.instanceMatrix.addUpdateRange(0, count * 16);
+  mesh.instanceMatrix.needsUpdate = true;
+  for (const name of ["instanceOpacity", "instanceLayer"]) {
+    const attribute = mesh.geometry.getAttribute(name) as THREE.InstancedBufferAttribute;
+    attribute.clearUpdateRanges();
+    attribute.addUpdateRange(0, count);
+    attribute.needsUpdate = true;
+  }
+  mesh.boundingSphere = null;
+  mesh.boundingBox = null;
+};
+
+const createTileMesh = (): DetailMesh => {
+  const material = new THREE.MeshBasicMaterial({ transparent: true, side: THREE.DoubleSide });
+  // Coplanar with the plane underneath; pulled towards the camera so the tile always wins
+  material.polygonOffset = true;
+  material.polygonOffsetFactor = -1;
+  material.polygonOffsetUnits = -4;
+  const mesh = new THREE.Mesh(PLANE_GEOMETRY, material);
+  mesh.matrixAutoUpdate = false;
+  mesh.visible = false;
+  mesh.renderOrder = 2;
+  return { mesh, plane: null };
+};
+
+const createDetailMesh = (): DetailMesh => {
+  const mesh = new THREE.Mesh(PLANE_GEOMETRY, new THREE.MeshBasicMaterial({ transparent: true, side: THREE.DoubleSide }));
+  mesh.matrixAutoUpdate = false;
+  mesh.visible = false;
+  return { mesh, plane: null };
+};
+
+/**
+ * Draws every plane with one pair of instanced meshes per texture array page: opaque planes first,
+ * then fading ones sorted back to front. Fades, focus detection, texture levels, deep zoom tiles and
+ * video playback for all planes are updated here in a single per-frame pass.
+ */
+export function PlaneBatch({
+  store,
+  cameraGridRef,
+  focusRef,
+  renderDistance = RENDER_DISTANCE,
+  textureScale = 1,
+  playMedia = true,
+  onSelect,
+}: {
+  store: PlaneBatchStore;
+  cameraGridRef: React.RefObject<CameraGridState>;
+  focusRef: React.RefObject<FocusState>;
+  /** Chunks around the camera shown at full opacity before the grid fade. */
+  renderDistance?: number;
+  /** Multiplier on the texture resolution picked for each plane's on-screen size. */
+  textureScale?: number;
+  /** Play video and animated media on planes covering enough of the screen; stills only when false. */
+  playMedia?: boolean;
+  onSelect?: SelectHandler;
+}) {
+  const gl = useThree((s) => s.gl);
+  const camera = useThree((s) => s.camera);
+  const batchesRef = React.useRef<PageBatch[]>([]);
+  const detailsRef = React.useRef<DetailMesh[]>([]);
+  const tilesRef = React.useRef<DetailMesh[]>([]);
+  const [batches, setBatches] = React.useState<PageBatch[]>([]);
+  const [details, setDetails] = React.useState<DetailMesh[]>([]);
+  const [tiles, setTiles] = React.useState<DetailMesh[]>([]);
+
+  React.useEffect(() => {
+    return () => {
+      for (const plane of store.planes) {
+        releaseDetail(plane);
+        releasePlanePlayback(plane);
+        releaseZoom(plane);
+      }
+      for (const batch of batchesRef.current) {
+        disposeInstances(batch.opaque);
+        disposeInstances(batch.fading);
+      }
+      for (const { mesh } of [...detailsRef.current, ...tilesRef.current]) mesh.material.dispose();
+      disposeLayerStore(store.layers);
+    };
+  }, [store]);
+
+  useFrame(({ size, viewport }) => {
+    runBlits(store.layers, gl);
+
+    const pages = store.layers.pages;
+    if (batchesRef.current.length < pages.length) {
+      batchesRef.current = [...batchesRef.current, ...pages.slice(batchesRef.current.length).map(createPageBatch)];
+      setBatches(batchesRef.current);
+    }
+
+    const batchList = batchesRef.current;
+    const opaqueCounts = batchList.map(() => 0);
+    for (const batch of batchList) batch.fadingPlanes.length = 0;
+    for (const detail of detailsRef.current) {
+      detail.mesh.visible = false;
+      detail.plane = null;
+    }
+    for (const tile of tilesRef.current) {
+      tile.mesh.visible = false;
+      tile.plane = null;
+    }
+    let detailCount = 0;
+    let detailsWanted = 0;
+    let tileCount = 0;
+    let tilesWanted = 0;
+
+    const cam = cameraGridRef.current;
+    const focus = focusRef.current;
+    const bufferWidth = size.width * viewport.dpr;
+    const bufferHeight = size.height * viewport.dpr;
+
+    for (const plane of store.planes) {
+      const layer = plane.layer;
+      // Nothing to show until the first texture level has been drawn into the layer
+      if (!layer?.page || layer.level < 0) continue;
+
+      const fade = plane.fade.current;
+      plane.frame = (plane.frame + 1) & 1;
+      if (fade.opacity < INVIS_THRESHOLD && !plane.visible && plane.frame === 0) continue;
+
+      plane.lodFrame = (plane.lodFrame + 1) % LOD_CHECK_FRAMES;
+      const lodDue = plane.lodFrame === 0;
+
+      const dist = Math.max(Math.abs(plane.cx - cam.cx), Math.abs(plane.cy - cam.cy), Math.abs(plane.cz - cam.cz));
+      const absDepth = Math.abs(plane.position.z - cam.camZ);
+
+      if (absDepth > DEPTH_FADE_END + 50) {
+        fade.opacity = 0;
+        plane.visible = false;
+        if (lodDue) updatePlaneLevels(store, plane, 0, camera);
+        continue;
+      }
+
+      const gridFade =
+        dist <= renderDistance ? 1 : Math.max(0, 1 - (dist - renderDistance) / Math.max(CHUNK_FADE_MARGIN, 0.0001));
+
+      const depthFade =
+        absDepth <= DEPTH_FADE_START
+          ? 1
+          : Math.max(0, 1 - (absDepth - DEPTH_FADE_START) / Math.max(DEPTH_FADE_END - DEPTH_FADE_START, 0.0001));
+
+      const target = Math.min(gridFade, depthFade * depthFade);
+
+      fade.opacity = target < INVIS_THRESHOLD && fade.opacity < INVIS_THRESHOLD ? 0 : lerp(fade.opacity, target, 0.18);
+      plane.visible = fade.opacity > INVIS_THRESHOLD;
+
+      const checkFocus = fade.opacity > 0.3;
+      if (checkFocus || (lodDue && plane.visible)) {
+        projectPlane(plane.position, plane.size, plane.rotation, camera);
+      }
+
+      if (lodDue) {
+        const texelHeight = plane.visible ? getProjectedTexelHeight(plane.size.x / plane.size.y, bufferWidth, bufferHeight) : 0;
+        updatePlaneLevels(store, plane, texelHeight * textureScale, camera);
+      }
+
+      if (checkFocus) {
+        const coverage = getProjectedCoverage();
+        if (plane.playback) plane.playback.demand = Math.max(plane.playback.demand, coverage);
+        if (coverage > 0.3 && coverage > focus.coverage) {
+          const color = getDominantColor(plane.media);
+          if (color) {
+            focus.coverage = coverage;
+            focus.color = color;
+            focus.palette = getPaletteColors(plane.media);
+            focus.planeId = plane.id;
+            focus.url = plane.media.url;
+          }
+        }
+      }
+
+      if (!plane.visible) continue;
+      layer.lastUsed = store.layers.frame;
+      const isFullyOpaque = fade.opacity > 0.99;
+
+      // Loaded tiles cover the plane's image; the rest of it shows through until theirs arrive
+      if (plane.zoom && isFullyOpaque) {
+        for (const tile of plane.zoom.tiles.values()) {
+          if (!tile.texture) continue;
+          tilesWanted++;
+          const mesh = tilesRef.current[tileCount];
+          if (!mesh) continue;
+          tileCount++;
+          mesh.plane = plane;
+          mesh.mesh.matrix.multiplyMatrices(plane.matrix, tile.matrix);
+          mesh.mesh.matrixWorldNeedsUpdate = true;
+          mesh.mesh.material.map = tile.texture;
+          mesh.mesh.visible = true;
+        }
+      }
+
+      // Once playing, the moving frames replace both the layer and the full-resolution still
+      const meshTexture = plane.playback?.ready ? plane.playback.texture : plane.detail?.texture;
+      if (meshTexture) {
+        const detail = detailsRef.current[detailCount];
+        detailsWanted++;
+        if (detail) {
+          detailCount++;
+          detail.plane = plane;
+          detail.mesh.matrix.copy(plane.matrix);
+          detail.mesh.matrixWorldNeedsUpdate = true;
+          const { material } = detail.mesh;
+          // Video textures are decoded by a different shader variant
+          if (material.map && material.map instanceof THREE.VideoTexture !== meshTexture instanceof THREE.VideoTexture) {
+            material.needsUpdate = true;
+          }
+          material.map = meshTexture;
+          material.opacity = isFullyOpaque ? 1 : fade.opacity;
+          material.depthWrite = isFullyOpaque;
+          detail.mesh.visible = true;
+          continue;
+        }
+      }
+
+      const batch = batchList[layer.page.index];
+      if (!batch) continue;
+      if (isFullyOpaque) {
+        const index = opaqueCounts[layer.page.index]++;
+        if (index >= MAX_INSTANCES) continue;
+        batch.opaquePlanes[index] = plane;
+        writeInstance(batch.opaque, index, plane, 1);
+      } else {
+        batch.fadingPlanes.push(plane);
+      }
+    }
+
+    for (let i = 0; i < batchList.length; i++) {
+      const batch = batchList[i];
+      commitInstances(batch.opaque, Math.min(opaqueCounts[i], MAX_INSTANCES));
+
+      // Back to front from wherever the camera is and whichever way it faces (corridor, sphere, free look)
+      const eye = camera.position;
+      const fading = batch.fadingPlanes
+        .sort((a, b) => eye.distanceToSquared(b.position) - eye.distanceToSquared(a.position))
+        .slice(0, MAX_INSTANCES);
+      for (let index = 0; index < fading.length; index++) {
+        writeInstance(batch.fading, index, fading[index], fading[index].fade.current.opacity);
+      }
+      commitInstances(batch.fading, fading.length);
+    }
+
+    updatePlaybacks(playMedia, performance.now());
+
+    if (detailsWanted > detailsRef.current.length) {
+      const extra = Array.from({ length: detailsWanted - detailsRef.current.length }, createDetailMesh);
+      detailsRef.current = [...detailsRef.current, ...extra];
+      setDetails(detailsRef.current);
+    }
+    if (tilesWanted > tilesRef.current.length) {
+      const extra = Array.from({ length: tilesWanted - tilesRef.current.length }, createTileMesh);
+      tilesRef.current = [...tilesRef.current, ...extra];
+      setTiles(tilesRef.current);
+    }
+  });
+
+  const select = (e: ThreeEvent<MouseEvent>, plane: BatchPlane | null | undefined) => {
+    // Ignore the click that ends a drag, and planes that have faded out
+    if (!onSelect || !plane || e.delta > CLICK_DRAG_THRESHOLD || plane.fade.current.opacity < 0.3) {
+      return;
+    }
+
+    e.stopPropagation();
+    onSelect(getPlaneSelection(plane));
+  };
+
+  return (
+    <>
+      {batches.map((batch) => (
+        <React.Fragment key={batch.page.index}>
+          {/* biome-ignore lint/a11y/noStaticElementInteractions: three.js mesh, picked by raycasting */}
+          <primitive
+            object={batch.opaque}
+            onClick={(e: ThreeEvent<MouseEvent>) => select(e, batch.opaquePlanes[e.instanceId ?? -1])}
+          />
+          {/* biome-ignore lint/a11y/noStaticElementInteractions: three.js mesh, picked by raycasting */}
+          <primitive
+            object={batch.fading}
+            onClick={(e: ThreeEvent<MouseEvent>) => select(e, batch.fadingPlanes[e.instanceId ?? -1])}
+          />
+        </React.Fragment>
+      ))}
+      {details.map((detail) => (
+        // biome-ignore lint/a11y/noStaticElementInteractions: three.js mesh, picked by raycasting
+        <primitive key={detail.mesh.uuid} object={detail.mesh} onClick={(e: ThreeEvent<MouseEvent>) => select(e, detail.plane)} />
+      ))}
+      {tiles.map((tile) => (
+        // biome-ignore lint/a11y/noStaticElementInteractions: three.js mesh, picked by raycasting
+        <primitive key={tile.mesh.uuid} object={tile.mesh} onClick={(e: ThreeEvent<MouseEvent>) => select(e, tile.plane)} />
+      ))}
+    </>
+  );
+}
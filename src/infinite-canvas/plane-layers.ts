@@ -0,0 +1,205 @@
+import * as THREE from "three";
+import { acquireTexture, releaseTexture } from "./texture-manager";
+import type { TextureLevel } from "./texture-manager";
+import type { MediaItem } from "./types";
+
+/** Side of one texture array layer; planes drawn taller than this get their own full-resolution mesh. */
+export const LAYER_SIZE = 512;
+// Layers per texture array; every page is drawn with its own pair of instanced meshes
+const PAGE_LAYERS = 16;
+// Each blit regenerates the page's mipmaps, so loads arriving together are spread over frames
+const MAX_BLITS_PER_FRAME = 4;
+
+type PendingLevel = { level: number; onLoad: (texture: THREE.Texture) => void };
+
+export type LayerPage = {
+  index: number;
+  target: THREE.WebGLArrayRenderTarget;
+  slots: (MediaLayer | null)[];
+};
+
+/** One media item's pixels in a texture array layer, shared by every plane showing that item. */
+export type MediaLayer = {
+  media: MediaItem;
+  page: LayerPage | null;
+  slot: number;
+  /** Ladder level drawn into the layer, -1 until the first blit. */
+  level: number;
+  pending: PendingLevel | null;
+  /** Loaded and waiting for its blit. */
+  queued: { level: number; texture: THREE.Texture } | null;
+  /** Planes showing this layer. Unreferenced layers keep their pixels until the slot is needed. */
+  refs: number;
+  lastUsed: number;
+};
+
+export type LayerStore = {
+  layers: Map<string, MediaLayer>;
+  pages: LayerPage[];
+  blitQueue: MediaLayer[];
+  frame: number;
+};
+
+const BLIT_VERTEX_SHADER = /* glsl */ `
+  varying vec2 vUv;
+
+  void main() {
+    vUv = uv;
+    gl_Position = vec4(position.xy, 0.0, 1.0);
+  }
+`;
+
+// Render targets are written in linear space; keep the layers sRGB-encoded so 8 bits don't band in the darks
+const BLIT_FRAGMENT_SHADER = /* glsl */ `
+  uniform sampler2D map;
+  varying vec2 vUv;
+
+  void main() {
+    gl_FragColor = sRGBTransferOETF(texture2D(map, vUv));
+  }
+`;
+
+const blitMaterial = new THREE.ShaderMaterial({
+  uniforms: { map: { value: null } },
+  vertexShader: BLIT_VERTEX_SHADER,
+  fragmentShader: BLIT_FRAGMENT_SHADER,
+  depthTest: false,
+  depthWrite: false,
+});
+const blitMesh = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), blitMaterial);
+blitMesh.frustumCulled = false;
+const blitCamera = new THREE.OrthographicCamera();
+
+export const createLayerStore = (): LayerStore => ({ layers: new Map(), pages: [], blitQueue: [], frame: 0 });
+
+/** Highest ladder level worth drawing into a layer: the first one that fills it, else the original. */
+export const getLayerLevelCap = (ladder: TextureLevel[]): number => {
+  const index = ladder.findIndex((level) => level.height >= LAYER_SIZE);
+  return index === -1 ? ladder.length - 1 : index;
+};
+
+const dropPendingLoads = (layer: MediaLayer) => {
+  if (layer.pending) releaseTexture(layer.media, layer.pending.level, layer.pending.onLoad);
+  if (layer.queued) releaseTexture(layer.media, layer.queued.level);
+  layer.pending = null;
+  layer.queued = null;
+};
+
+/** Load `level` into the layer unless it already holds (or is loading) at least that much detail. */
+export const requestLayerLevel = (store: LayerStore, layer: MediaLayer, level: number): void => {
+  if (level <= Math.max(layer.level, layer.pending?.level ?? -1, layer.queued?.level ?? -1)) return;
+
+  if (layer.pending) releaseTexture(layer.media, layer.pending.level, layer.pending.onLoad);
+  const pending: PendingLevel = {
+    level,
+    onLoad: (texture) => {
+      if (layer.pending !== pending) return;
+      layer.pending = null;
+      if (layer.queued) releaseTexture(layer.media, layer.queued.level);
+      layer.queued = { level, texture };
+      store.blitQueue.push(layer);
+    },
+  };
+  layer.pending = pending;
+  acquireTexture(layer.media, level, pending.onLoad);
+};
+
+/** Layer for a media item, starting with its smallest level as a placeholder. Pair with `releaseLayer`. */
+export const retainLayer = (store: LayerStore, media: MediaItem): MediaLayer => {
+  let layer = store.layers.get(media.url);
+  if (!layer) {
+    layer = { media, page: null, slot: -1, level: -1, pending: null, queued: null, refs: 0, lastUsed: store.frame };
+    store.layers.set(media.url, layer);
+  }
+  if (layer.refs++ === 0 && layer.level < 0) requestLayerLevel(store, layer, 0);
+  return layer;
+};
+
+export const releaseLayer = (store: LayerStore, layer: MediaLayer): void => {
+  layer.refs = Math.max(0, layer.refs - 1);
+  if (layer.refs) return;
+
+  layer.lastUsed = store.frame;
+  dropPendingLoads(layer);
+};
+
+const createPage = (store: LayerStore): LayerPage => {
+  const target = new THREE.WebGLArrayRenderTarget(LAYER_SIZE, LAYER_SIZE, PAGE_LAYERS, {
+    generateMipmaps: true,
+    minFilter: THREE.LinearMipmapLinearFilter,
+    magFilter: THREE.LinearFilter,
+    depthBuffer: false,
+  });
+  target.texture.anisotropy = 4;
+
+  const page: LayerPage = { index: store.pages.length, target, slots: new Array(PAGE_LAYERS).fill(null) };
+  store.pages.push(page);
+  return page;
+};
+
+/** A free slot, else the least recently used unreferenced layer's, else a slot on a new page. */
+const allocateSlot = (store: LayerStore, layer: MediaLayer) => {
+  let victim: MediaLayer | null = null;
+
+  for (const page of store.pages) {
+    const free = page.slots.indexOf(null);
+    if (free !== -1) {
+      page.slots[free] = layer;
+      layer.page = page;
+      layer.slot = free;
+      return;
+    }
+    for (const other of page.slots) {
+      if (other && !other.refs && (!victim || other.lastUsed < victim.lastUsed)) victim = other;
+    }
+  }
+
+  if (victim?.page) {
+    victim.page.slots[victim.slot] = layer;
+    layer.page = victim.page;
+    layer.slot = victim.slot;
+    store.layers.delete(victim.media.url);
+    dropPendingLoads(victim);
+    return;
+  }
+
+  const page = createPage(store);
+  page.slots[0] = layer;
+  layer.page = page;
+  layer.slot = 0;
+};
+
+/** Draw loaded textures into their layers; their source textures go back to the texture cache afterwards. */
+export const runBlits = (store: LayerStore, gl: THREE.WebGLRenderer): void => {
+  store.frame++;
+  if (!store.blitQueue.length) return;
+
+  const previousTarget = gl.getRenderTarget();
+  for (let i = 0; i < MAX_BLITS_PER_FRAME && store.blitQueue.length; i++) {
+    const layer = store.blitQueue.shift();
+    const queued = layer?.queued;
+    // Released, or reclaimed by another item, while waiting
+    if (!layer || !queued || store.layers.get(layer.media.url) !== layer) continue;
+
+    if (!layer.page) allocateSlot(store, layer);
+    if (!layer.page) continue;
+
+    blitMaterial.uniforms.map.value = queued.texture;
+    gl.setRenderTarget(layer.page.target, layer.slot);
+    gl.render(blitMesh, blitCamera);
+
+    layer.level = queued.level;
+    layer.queued = null;
+    releaseTexture(layer.media, queued.level);
+  }
+  blitMaterial.uniforms.map.value = null;
+  gl.setRenderTarget(previousTarget);
+};
+
+export const disposeLayerStore = (store: LayerStore): void => {
+  for (const layer of store.layers.values()) dropPendingLoads(layer);
+  for (const page of store.pages) page.target.dispose();
+  store.layers.clear();
+  store.pages.length = 0;
+  store.blitQueue.length = 0;
+};
@@ -0,0 +1,72 @@
+import { useFrame } from "@react-three/fiber";
+import * as React from "react";
+import type { QualityTier } from "./types";
+
+export type QualitySettings = {
+  /** Upper bound on the canvas pixel ratio. */
+  maxDpr: number;
+  /** Chunks kept around the camera before the grid fade, in place of `RENDER_DISTANCE`. */
+  renderDistance: number;
+  /** Multipliers on particle counts of plane overlays and focus effects. */
+  overlayParticles: number;
+  focusParticles: number;
+  /** Multiplier on the texture resolution picked for a plane's on-screen size. */
+  textureScale: number;
+};
+
+/** Cheapest first. */
+export const QUALITY_TIERS: QualityTier[] = ["low", "medium", "high"];
+
+export const QUALITY_SETTINGS: Record<QualityTier, QualitySettings> = {
+  low: { maxDpr: 1, renderDistance: 1, overlayParticles: 0.25, focusParticles: 0.3, textureScale: 0.5 },
+  medium: { maxDpr: 1.25, renderDistance: 2, overlayParticles: 0.5, focusParticles: 0.6, textureScale: 0.75 },
+  high: { maxDpr: 1.5, renderDistance: 2, overlayParticles: 1, focusParticles: 1, textureScale: 1 },
+};
+
+// Frame times are averaged over windows this long
+const SAMPLE_MS = 1000;
+const DOWNGRADE_FRAME_MS = 1000 / 45;
+const UPGRADE_FRAME_MS = 1000 / 55;
+// Consecutive slow (or fast) windows before stepping down (or up)
+const DOWNGRADE_SAMPLES = 2;
+const UPGRADE_SAMPLES = 5;
+// Frames longer than this are tab switches or one-off hitches, not sustained load
+const MAX_FRAME_MS = 250;
+
+/**
+ * Steps `tier` down while frames average slower than 45 fps and back up while they stay above 55 fps.
+ * Each downgrade doubles the wait before the next upgrade so a borderline device settles instead of flip-flopping.
+ */
+export function QualityGovernor({ tier, onChange }: { tier: QualityTier; onChange: (tier: QualityTier) => void }) {
+  const stateRef = React.useRef({ elapsed: 0, frames: 0, slow: 0, fast: 0, upgradeSamples: UPGRADE_SAMPLES });
+
+  useFrame((_, delta) => {
+    const ms = delta * 1000;
+    if (ms > MAX_FRAME_MS) return;
+
+    const s = stateRef.current;
+    s.elapsed += ms;
+    s.frames++;
+    if (s.elapsed < SAMPLE_MS) return;
+
+    const average = s.elapsed / s.frames;
+    s.elapsed = 0;
+    s.frames = 0;
+    s.slow = average > DOWNGRADE_FRAME_MS ? s.slow + 1 : 0;
+    s.fast = average < UPGRADE_FRAME_MS ? s.fast + 1 : 0;
+
+    const index = QUALITY_TIERS.indexOf(tier);
+    if (s.slow >= DOWNGRADE_SAMPLES && index > 0) {
+      s.slow = 0;
+      s.fast = 0;
+      s.upgradeSamples *= 2;
+      onChange(QUALITY_TIERS[index - 1]);
+    } else if (s.fast >= s.upgradeSamples && index < QUALITY_TIERS.length - 1) {
+      s.slow = 0;
+      s.fast = 0;
+      onChange(QUALITY_TIERS[index + 1]);
+    }
+  });
+
+  return null;
+}
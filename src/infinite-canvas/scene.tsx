@@ -1,236 +1,119 @@
-import { KeyboardControls, Stats, useKeyboardControls, useProgress } from "@react-three/drei";
+import { Stats, useProgress } from "@react-three/drei";
 import { Canvas, useFrame, useThree } from "@react-three/fiber";
 import * as React from "react";
 import * as THREE from "three";
 import { useEffects } from "~/src/copilot/effects-context";
+import { lookupEffect } from "~/src/copilot/effects-store";
 import { useIsTouchDevice } from "~/src/use-is-touch-device";
+import { useReducedMotion } from "~/src/use-reduced-motion";
 import { clamp, lerp } from "~/src/utils";
+import { GRADIENT_STOPS, GradientBackground, guardChromeContrast } from "./background";
 import { FrameDecoration } from "./frame-decoration";
 import { OverlayEffect } from "./overlay-effect";
+import { DEFAULT_KEY_BINDINGS, formatKeyCode } from "./input-bindings";
+import {
+  createGamepadSource,
+  createKeyboardSource,
+  createPointerSource,
+  createTouchSource,
+  createXRControllerSource,
+} from "./input-sources";
+import type { InputTarget } from "./input-sources";
+import { describeMedia, getNavigablePlanes, pickNearestPlane, pickPlaneInDirection } from "./keyboard-nav";
+import type { NavDirection } from "./keyboard-nav";
+import { PlaneBatch, addPlanes, createBatchPlane, createPlaneBatchStore, getPlaneSelection, removePlanes } from "./plane-batch";
+import type { BatchPlane, CameraGridState, FocusState, PlaneBatchStore } from "./plane-batch";
 import {
-  CHUNK_FADE_MARGIN,
-  CHUNK_OFFSETS,
   CHUNK_SIZE,
-  DEPTH_FADE_END,
-  DEPTH_FADE_START,
+  FLY_DURATION_MS,
   INITIAL_CAMERA_Z,
-  INVIS_THRESHOLD,
-  KEYBOARD_SPEED,
+  INSPECT_MARGIN,
   MAX_VELOCITY,
-  RENDER_DISTANCE,
   VELOCITY_DECAY,
   VELOCITY_LERP,
 } from "./constants";
 import styles from "./style.module.css";
-import { getDominantColor, getTexture } from "./texture-manager";
+import { setTextureBudget } from "./texture-manager";
+import { QUALITY_SETTINGS, QualityGovernor } from "./quality";
+import type { QualitySettings } from "./quality";
+import { TextureStatsPanel } from "./texture-stats";
 import { FocusEffects3D } from "./focus-effects-3d";
 import { DEFAULT_LAYOUT_PARAMS } from "./types";
-import type { ChunkData, InfiniteCanvasProps, LayoutParams, MediaItem, PlaneData } from "./types";
+import type {
+  ArtworkSelection,
+  BackgroundStyle,
+  CameraPosition,
+  CameraTarget,
+  CanvasController,
+  ChunkData,
+  FlightOptions,
+  FocusEffectType,
+  InfiniteCanvasProps,
+  InputAction,
+  KeyBindings,
+  LayoutParams,
+  MediaItem,
+  PlaneData,
+  QualityTier,
+} from "./types";
 
 const FOCUS_CALLBACK_THROTTLE_MS = 100;
-import { clearPlaneCache, generateChunkPlanesCached, getChunkUpdateThrottleMs, shouldThrottleUpdate } from "./utils";
-
-const PLANE_GEOMETRY = new THREE.PlaneGeometry(1, 1);
-
-type FocusState = { coverage: number; color: THREE.Color; effectBlend: number };
-
-const _projMin = new THREE.Vector3();
-const _projMax = new THREE.Vector3();
-
-const KEYBOARD_MAP = [
-  { name: "forward", keys: ["w", "W", "ArrowUp"] },
-  { name: "backward", keys: ["s", "S", "ArrowDown"] },
-  { name: "left", keys: ["a", "A", "ArrowLeft"] },
-  { name: "right", keys: ["d", "D", "ArrowRight"] },
-  { name: "up", keys: ["e", "E"] },
-  { name: "down", keys: ["q", "Q"] },
-];
-
-type KeyboardKeys = {
-  forward: boolean;
-  backward: boolean;
-  left: boolean;
-  right: boolean;
-  up: boolean;
-  down: boolean;
-};
-
-const getTouchDistance = (touches: Touch[]) => {
-  if (touches.length < 2) {
-    return 0;
-  }
-
-  const [t1, t2] = touches;
-  const dx = t1.clientX - t2.clientX;
-  const dy = t1.clientY - t2.clientY;
-  return Math.sqrt(dx * dx + dy * dy);
-};
-
-type CameraGridState = {
-  cx: number;
-  cy: number;
-  cz: number;
-  camZ: number;
+import {
+  clearPlaneCache,
+  findNearestPlane,
+  generateChunkPlanesCached,
+  getMediaAspects,
+  getChunkUpdateThrottleMs,
+  selectChunks,
+  shouldThrottleUpdate,
+} from "./utils";
+
+/** First key bound to each action, run together like "WASD". */
+const formatKeys = (bindings: KeyBindings, actions: InputAction[]) =>
+  actions.map((action) => (bindings[action][0] ? formatKeyCode(bindings[action][0]) : "")).join("");
+
+const ARROW_DIRECTIONS: Record<string, NavDirection> = {
+  ArrowLeft: "left",
+  ArrowRight: "right",
+  ArrowUp: "up",
+  ArrowDown: "down",
 };
 
-function MediaPlane({
-  position,
-  scale,
-  media,
-  chunkCx,
-  chunkCy,
-  chunkCz,
-  cameraGridRef,
-  focusRef,
-  planeId,
-}: {
-  position: THREE.Vector3;
-  scale: THREE.Vector3;
-  media: MediaItem;
-  chunkCx: number;
-  chunkCy: number;
-  chunkCz: number;
-  cameraGridRef: React.RefObject<CameraGridState>;
-  focusRef: React.RefObject<FocusState>;
-  planeId: string;
-}) {
-  const camera = useThree((s) => s.camera);
-  const meshRef = React.useRef<THREE.Mesh>(null);
-  const materialRef = React.useRef<THREE.MeshBasicMaterial>(null);
-  const localState = React.useRef({ opacity: 0, frame: 0, ready: false });
-  const { stateRef, revision } = useEffects();
-
-  const [texture, setTexture] = React.useState<THREE.Texture | null>(null);
-  const [isReady, setIsReady] = React.useState(false);
+const CANVAS_LABEL = "Artwork canvas. Press Tab or the arrow keys to move between artworks, Enter to open one, Escape to stop.";
 
-  useFrame(() => {
-    const material = materialRef.current;
-    const mesh = meshRef.current;
-    const state = localState.current;
+// Browsing stands further back than inspecting so neighbouring planes stay in view
+const BROWSE_MARGIN = 3;
+// Planes remembered for Shift+Tab, and skipped by Tab until they drop out
+const BROWSE_HISTORY = 32;
 
-    if (!material || !mesh) {
-      return;
-    }
+type SelectHandler = (selection: ArtworkSelection) => void;
 
-    state.frame = (state.frame + 1) & 1;
-
-    if (state.opacity < INVIS_THRESHOLD && !mesh.visible && state.frame === 0) {
-      return;
-    }
+const easeInOutCubic = (t: number): number => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
 
-    const cam = cameraGridRef.current;
-    const dist = Math.max(Math.abs(chunkCx - cam.cx), Math.abs(chunkCy - cam.cy), Math.abs(chunkCz - cam.cz));
-    const absDepth = Math.abs(position.z - cam.camZ);
-
-    if (absDepth > DEPTH_FADE_END + 50) {
-      state.opacity = 0;
-      material.opacity = 0;
-      material.depthWrite = false;
-      mesh.visible = false;
-      return;
-    }
-
-    const gridFade =
-      dist <= RENDER_DISTANCE ? 1 : Math.max(0, 1 - (dist - RENDER_DISTANCE) / Math.max(CHUNK_FADE_MARGIN, 0.0001));
-
-    const depthFade =
-      absDepth <= DEPTH_FADE_START
-        ? 1
-        : Math.max(0, 1 - (absDepth - DEPTH_FADE_START) / Math.max(DEPTH_FADE_END - DEPTH_FADE_START, 0.0001));
-
-    const target = Math.min(gridFade, depthFade * depthFade);
-
-    state.opacity = target < INVIS_THRESHOLD && state.opacity < INVIS_THRESHOLD ? 0 : lerp(state.opacity, target, 0.18);
-
-    const isFullyOpaque = state.opacity > 0.99;
-    material.opacity = isFullyOpaque ? 1 : state.opacity;
-    material.depthWrite = isFullyOpaque;
-    mesh.visible = state.opacity > INVIS_THRESHOLD;
-
-    if (state.opacity > 0.3 && material.map) {
-      const halfW = mesh.scale.x / 2;
-      const halfH = mesh.scale.y / 2;
-      _projMin.set(position.x - halfW, position.y - halfH, position.z).project(camera);
-      _projMax.set(position.x + halfW, position.y + halfH, position.z).project(camera);
-      const w = clamp(_projMax.x, -1, 1) - clamp(_projMin.x, -1, 1);
-      const h = clamp(_projMax.y, -1, 1) - clamp(_projMin.y, -1, 1);
-      const coverage = (Math.abs(w) * Math.abs(h)) / 4;
-      if (coverage > 0.3 && coverage > focusRef.current.coverage) {
-        const color = getDominantColor(media, material.map);
-        if (color) {
-          focusRef.current.coverage = coverage;
-          focusRef.current.color = color;
-        }
-      }
-    }
-  });
-
-  // Calculate display scale from media dimensions (from manifest)
-  const displayScale = React.useMemo(() => {
-    if (media.width && media.height) {
-      const aspect = media.width / media.height;
-      return new THREE.Vector3(scale.y * aspect, scale.y, 1);
-    }
-
-    return scale;
-  }, [media.width, media.height, scale]);
-
-  // Load texture with onLoad callback
-  React.useEffect(() => {
-    const state = localState.current;
-    state.ready = false;
-    state.opacity = 0;
-    setIsReady(false);
-
-    const material = materialRef.current;
-
-    if (material) {
-      material.opacity = 0;
-      material.depthWrite = false;
-      material.map = null;
-    }
-
-    const tex = getTexture(media, () => {
-      state.ready = true;
-      setIsReady(true);
-    });
-
-    setTexture(tex);
-  }, [media]);
-
-  // Apply texture when ready
-  React.useEffect(() => {
-    const material = materialRef.current;
-    const mesh = meshRef.current;
-    const state = localState.current;
-
-    if (!material || !mesh || !texture || !isReady || !state.ready) {
-      return;
-    }
-
-    material.map = texture;
-    material.opacity = state.opacity;
-    material.depthWrite = state.opacity >= 1;
-    mesh.scale.copy(displayScale);
-  }, [displayScale, texture, isReady]);
-
-  const frame = stateRef.current.frames.get(planeId) ?? stateRef.current.frames.get("__default__") ?? null;
-  const overlay = stateRef.current.overlays.get(planeId) ?? stateRef.current.overlays.get("__default__") ?? null;
+/** A plane's frame and overlay effects, faded along with it. */
+function PlaneDecorations({ plane, particleScale }: { plane: BatchPlane; particleScale: number }) {
+  const { stateRef, revision } = useEffects();
+  const frame = lookupEffect(stateRef.current.frames, plane.id, plane.media.url);
+  const overlay = lookupEffect(stateRef.current.overlays, plane.id, plane.media.url);
   // Reference revision to re-render when effects change
   void revision;
 
-
-  if (!texture || !isReady) {
+  if (!frame && !overlay) {
     return null;
   }
 
   return (
-    <group position={position}>
-      <mesh ref={meshRef} scale={displayScale} visible={false} geometry={PLANE_GEOMETRY}>
-        <meshBasicMaterial ref={materialRef} transparent opacity={0} side={THREE.DoubleSide} />
-      </mesh>
-      {frame && <FrameDecoration frame={frame} width={displayScale.x} height={displayScale.y} opacityRef={localState} />}
-      {overlay && <OverlayEffect overlay={overlay} width={displayScale.x} height={displayScale.y} opacityRef={localState} />}
+    <group position={plane.position} rotation={plane.rotation}>
+      {frame && <FrameDecoration frame={frame} width={plane.size.x} height={plane.size.y} opacityRef={plane.fade} />}
+      {overlay && particleScale > 0 && (
+        <OverlayEffect
+          overlay={overlay}
+          width={plane.size.x}
+          height={plane.size.y}
+          opacityRef={plane.fade}
+          particleScale={particleScale}
+        />
+      )}
     </group>
   );
 }
@@ -240,23 +123,23 @@ function Chunk({
   cy,
   cz,
   media,
-  cameraGridRef,
-  focusRef,
+  batchStore,
   layoutParams,
+  particleScale,
 }: {
   cx: number;
   cy: number;
   cz: number;
   media: MediaItem[];
-  cameraGridRef: React.RefObject<CameraGridState>;
-  focusRef: React.RefObject<FocusState>;
+  batchStore: PlaneBatchStore;
   layoutParams: LayoutParams;
+  particleScale: number;
 }) {
   const [planes, setPlanes] = React.useState<PlaneData[] | null>(null);
 
   React.useEffect(() => {
     let canceled = false;
-    const run = () => !canceled && setPlanes(generateChunkPlanesCached(cx, cy, cz, layoutParams));
+    const run = () => !canceled && setPlanes(generateChunkPlanesCached(cx, cy, cz, layoutParams, getMediaAspects(media)));
 
     if (typeof requestIdleCallback !== "undefined") {
       const id = requestIdleCallback(run, { timeout: 100 });
@@ -272,54 +155,54 @@ function Chunk({
       canceled = true;
       clearTimeout(id);
     };
-  }, [cx, cy, cz, layoutParams]);
+  }, [cx, cy, cz, layoutParams, media]);
 
-  if (!planes) {
-    return null;
-  }
+  // An empty (filtered) collection keeps the chunk mounted with nothing in it
+  const batchPlanes = React.useMemo(() => {
+    if (!planes || !media.length) return [];
 
-  return (
-    <group>
-      {planes.map((plane) => {
-        const mediaItem = media[plane.mediaIndex % media.length];
+    return planes.flatMap((plane) => {
+      const mediaItem = media[plane.mediaIndex % media.length];
+      return mediaItem ? [createBatchPlane(plane, mediaItem, cx, cy, cz)] : [];
+    });
+  }, [planes, media, cx, cy, cz]);
 
-        if (!mediaItem) {
-          return null;
-        }
+  React.useEffect(() => {
+    addPlanes(batchStore, batchPlanes);
+    return () => removePlanes(batchStore, batchPlanes);
+  }, [batchStore, batchPlanes]);
 
-        return (
-          <MediaPlane
-            key={plane.id}
-            position={plane.position}
-            scale={plane.scale}
-            media={mediaItem}
-            chunkCx={cx}
-            chunkCy={cy}
-            chunkCz={cz}
-            cameraGridRef={cameraGridRef}
-            focusRef={focusRef}
-            planeId={plane.id}
-          />
-        );
-      })}
+  return (
+    <group>
+      {batchPlanes.map((plane) => (
+        <PlaneDecorations key={plane.id} plane={plane} particleScale={particleScale} />
+      ))}
     </group>
   );
 }
 
-type ControllerState = {
+type ControllerState = InputTarget & {
   velocity: { x: number; y: number; z: number };
-  targetVel: { x: number; y: number; z: number };
   basePos: { x: number; y: number; z: number };
   drift: { x: number; y: number };
-  mouse: { x: number; y: number };
-  lastMouse: { x: number; y: number };
-  scrollAccum: number;
-  isDragging: boolean;
-  lastTouches: Touch[];
-  lastTouchDist: number;
+  /** Sorted keys of the mounted chunks. */
   lastChunkKey: string;
   lastChunkUpdate: number;
-  pendingChunk: { cx: number; cy: number; cz: number } | null;
+  flight: Flight | null;
+  /** Camera position to return to after inspecting; non-null while input is locked. */
+  savedPos: { x: number; y: number; z: number } | null;
+  /** Plane picked with Tab or the arrow keys; non-null while browsing artworks with the keyboard. */
+  browsing: BatchPlane | null;
+  /** Ids of browsed planes, most recent last. */
+  browseHistory: string[];
+};
+
+type Flight = {
+  from: { x: number; y: number; z: number };
+  to: { x: number; y: number; z: number };
+  start: number;
+  duration: number;
+  onDone?: () => void;
 };
 
 const createInitialState = (camZ: number): ControllerState => ({
@@ -328,29 +211,46 @@ const createInitialState = (camZ: number): ControllerState => ({
   basePos: { x: 0, y: 0, z: camZ },
   drift: { x: 0, y: 0 },
   mouse: { x: 0, y: 0 },
-  lastMouse: { x: 0, y: 0 },
   scrollAccum: 0,
   isDragging: false,
-  lastTouches: [],
-  lastTouchDist: 0,
+  pointerInput: false,
   lastChunkKey: "",
   lastChunkUpdate: 0,
-  pendingChunk: null,
+  flight: null,
+  savedPos: null,
+  browsing: null,
+  browseHistory: [],
 });
 
+/** Camera position in front of `target` that fits it on screen, with `margin` to spare. */
+const getFramingPosition = (camera: THREE.PerspectiveCamera, target: CameraTarget, margin: number): CameraPosition => {
+  const halfFov = THREE.MathUtils.degToRad(camera.fov / 2);
+  const fitHeight = target.height / 2 / Math.tan(halfFov);
+  const fitWidth = target.width / 2 / (Math.tan(halfFov) * camera.aspect);
+  const distance = Math.max(fitHeight, fitWidth) * margin;
+  return { x: target.position.x, y: target.position.y, z: target.position.z + distance };
+};
+
 
 function BackgroundUpdater({
   focusRef,
   onFocusChange,
   baseColor,
+  backgroundStyle,
 }: {
   focusRef: React.RefObject<FocusState>;
   onFocusChange?: (color: { r: number; g: number; b: number } | null, coverage: number) => void;
   baseColor: string;
+  backgroundStyle: BackgroundStyle;
 }) {
   const scene = useThree((s) => s.scene);
+  const { stateRef } = useEffects();
   const currentColor = React.useRef(new THREE.Color(baseColor));
   const baseColorRef = React.useRef(new THREE.Color(baseColor));
+  // Gradient stops as displayed (guarded) and as blended towards the focus palette
+  const [gradientColors] = React.useState(() => Array.from({ length: GRADIENT_STOPS }, () => new THREE.Color(baseColor)));
+  const [blendedStops] = React.useState(() => Array.from({ length: GRADIENT_STOPS }, () => new THREE.Color(baseColor)));
+  const guardedColor = React.useRef(new THREE.Color());
   const lastEmitTime = React.useRef(0);
 
   React.useEffect(() => {
@@ -364,15 +264,14 @@ function BackgroundUpdater({
     const cur = currentColor.current;
     const now = Date.now();
 
-    if (onFocusChange && now - lastEmitTime.current >= FOCUS_CALLBACK_THROTTLE_MS) {
+    if (now - lastEmitTime.current >= FOCUS_CALLBACK_THROTTLE_MS) {
       lastEmitTime.current = now;
       if (focus.coverage > 0.3) {
-        onFocusChange(
-          { r: focus.color.r, g: focus.color.g, b: focus.color.b },
-          focus.coverage
-        );
+        stateRef.current.focused = focus.planeId && focus.url ? { planeId: focus.planeId, url: focus.url } : null;
+        onFocusChange?.({ r: focus.color.r, g: focus.color.g, b: focus.color.b }, focus.coverage);
       } else {
-        onFocusChange(null, 0);
+        stateRef.current.focused = null;
+        onFocusChange?.(null, 0);
       }
     }
 
@@ -381,23 +280,34 @@ function BackgroundUpdater({
       ? Math.min(1, focus.effectBlend + EFFECT_BLEND_LERP)
       : Math.max(0, focus.effectBlend - EFFECT_BLEND_LERP);
 
-    if (focus.coverage > 0.5) {
-      cur.lerp(focus.color, EFFECT_BLEND_LERP);
-    } else {
-      cur.lerp(baseColorRef.current, EFFECT_BLEND_LERP);
-    }
+    const showFocus = focus.coverage > 0.5;
+    cur.lerp(showFocus ? focus.color : baseColorRef.current, EFFECT_BLEND_LERP);
+    const guarded = guardChromeContrast(cur, guardedColor.current);
 
     if (scene.background instanceof THREE.Color) {
-      scene.background.copy(cur);
+      scene.background.copy(guarded);
     }
     if (scene.fog instanceof THREE.Fog) {
-      scene.fog.color.copy(cur);
+      scene.fog.color.copy(guarded);
+    }
+
+    if (backgroundStyle !== "solid") {
+      // Dominant color first, then the heaviest swatches; short palettes repeat their last swatch
+      const palette = focus.palette?.length ? focus.palette : null;
+      for (let i = 0; i < GRADIENT_STOPS; i++) {
+        let target = baseColorRef.current;
+        if (showFocus) target = i === 0 || !palette ? focus.color : palette[Math.min(i - 1, palette.length - 1)];
+        blendedStops[i].lerp(target, EFFECT_BLEND_LERP);
+        guardChromeContrast(blendedStops[i], gradientColors[i]);
+      }
     }
 
     focus.coverage = 0;
+    focus.planeId = null;
+    focus.url = null;
   });
 
-  return null;
+  return backgroundStyle === "solid" ? null : <GradientBackground style={backgroundStyle} colors={gradientColors} />;
 }
 
 function SceneController({
@@ -407,27 +317,64 @@ function SceneController({
   focusEffectType = "fire",
   layoutParams,
   backgroundColor = "#ffffff",
+  backgroundStyle = "solid",
+  quality,
+  reducedMotion,
+  keyBindings,
+  onAnnounce,
+  onArtworkSelect,
+  controllerRef,
 }: {
   media: MediaItem[];
   onTextureProgress?: (progress: number) => void;
   onFocusChange?: (color: { r: number; g: number; b: number } | null, coverage: number) => void;
-  focusEffectType?: "fire" | "cloud" | "flowers";
+  focusEffectType?: FocusEffectType;
   layoutParams: LayoutParams;
   backgroundColor?: string;
+  backgroundStyle?: BackgroundStyle;
+  quality: QualitySettings;
+  /** Drop mouse drift and particle effects. */
+  reducedMotion: boolean;
+  keyBindings: KeyBindings;
+  /** Text for the screen reader live region. */
+  onAnnounce?: (message: string) => void;
+  onArtworkSelect?: SelectHandler;
+  controllerRef?: React.RefObject<CanvasController | null>;
 }) {
   const { camera, gl } = useThree();
   const isTouchDevice = useIsTouchDevice();
-  const [, getKeys] = useKeyboardControls<keyof KeyboardKeys>();
 
   const state = React.useRef<ControllerState>(createInitialState(INITIAL_CAMERA_Z));
   const cameraGridRef = React.useRef<CameraGridState>({ cx: 0, cy: 0, cz: 0, camZ: camera.position.z });
   const focusRef = React.useRef<FocusState>({
     coverage: 0,
     color: new THREE.Color("#ffffff"),
+    palette: null,
     effectBlend: 0,
+    planeId: null,
+    url: null,
   });
 
   const [chunks, setChunks] = React.useState<ChunkData[]>([]);
+  const [batchStore] = React.useState(createPlaneBatchStore);
+
+  /** Mount the chunks `selectChunks` picks, re-rendering only when the set changes. */
+  const updateChunks = React.useCallback(
+    (velocity: ControllerState["velocity"]) => {
+      camera.updateMatrixWorld();
+      const next = selectChunks(camera, velocity, layoutParams, quality.renderDistance);
+      const key = next
+        .map((chunk) => chunk.key)
+        .sort()
+        .join(";");
+
+      if (key !== state.current.lastChunkKey) {
+        state.current.lastChunkKey = key;
+        setChunks(next);
+      }
+    },
+    [camera, layoutParams, quality.renderDistance]
+  );
 
   const { progress } = useProgress();
   const maxProgress = React.useRef(0);
@@ -441,134 +388,204 @@ function SceneController({
     }
   }, [progress, onTextureProgress]);
 
-  const prevParamsRef = React.useRef(layoutParams);
-  React.useEffect(() => {
-    if (prevParamsRef.current !== layoutParams) {
-      clearPlaneCache();
-      prevParamsRef.current = layoutParams;
-    }
-  }, [layoutParams]);
+  /** With reduced motion the camera jumps straight to `to` on the next frame. */
+  const startFlight = React.useCallback(
+    (to: Flight["to"], duration = FLY_DURATION_MS, onDone?: () => void) => {
+      const s = state.current;
+      s.flight = { from: { ...s.basePos }, to, start: performance.now(), duration: reducedMotion ? 0 : duration, onDone };
+    },
+    [reducedMotion]
+  );
 
-  React.useEffect(() => {
-    const canvas = gl.domElement;
-    const s = state.current;
-    canvas.style.cursor = "grab";
+  const flyTo = React.useCallback(
+    (target: CameraTarget, options?: FlightOptions) => {
+      const s = state.current;
+      s.savedPos ??= { ...s.basePos };
+      startFlight(getFramingPosition(camera as THREE.PerspectiveCamera, target, INSPECT_MARGIN), options?.durationMs);
+    },
+    [camera, startFlight]
+  );
 
-    const setCursor = (cursor: string) => {
-      canvas.style.cursor = cursor;
-    };
+  const flyToMedia = React.useCallback(
+    (url: string, options?: FlightOptions) => {
+      const target = findNearestPlane(url, media, layoutParams, state.current.basePos);
+      if (target) flyTo(target, options);
+      return target;
+    },
+    [media, layoutParams, flyTo]
+  );
 
-    const onMouseDown = (e: MouseEvent) => {
-      // Just start dragging - keep drift frozen at current value
-      s.isDragging = true;
-      s.lastMouse = { x: e.clientX, y: e.clientY };
-      setCursor("grabbing");
-    };
+  const restoreCamera = React.useCallback(() => {
+    const s = state.current;
+    const saved = s.savedPos;
+    if (!saved) return;
 
-    const onMouseUp = () => {
-      s.isDragging = false;
-      setCursor("grab");
-    };
+    startFlight(saved, FLY_DURATION_MS, () => {
+      s.savedPos = null;
+    });
+  }, [startFlight]);
 
-    const onMouseLeave = () => {
-      s.mouse = { x: 0, y: 0 };
-      s.isDragging = false;
-      setCursor("grab");
-    };
+  const getCameraPosition = React.useCallback(() => ({ ...state.current.basePos }), []);
 
-    const onMouseMove = (e: MouseEvent) => {
-      s.mouse = {
-        x: (e.clientX / window.innerWidth) * 2 - 1,
-        y: -(e.clientY / window.innerHeight) * 2 + 1,
-      };
+  const setCameraPosition = React.useCallback((position: CameraPosition) => {
+    const s = state.current;
+    s.flight = null;
+    s.savedPos = null;
+    s.basePos = { ...position };
+    s.velocity = { x: 0, y: 0, z: 0 };
+    s.targetVel = { x: 0, y: 0, z: 0 };
+    s.scrollAccum = 0;
+  }, []);
+
+  React.useImperativeHandle(
+    controllerRef,
+    () => ({ flyTo, flyToMedia, restoreCamera, getCameraPosition, setCameraPosition }),
+    [flyTo, flyToMedia, restoreCamera, getCameraPosition, setCameraPosition]
+  );
 
-      if (s.isDragging) {
-        s.targetVel.x -= (e.clientX - s.lastMouse.x) * 0.025;
-        s.targetVel.y += (e.clientY - s.lastMouse.y) * 0.025;
-        s.lastMouse = { x: e.clientX, y: e.clientY };
-      }
-    };
+  const handleSelect = React.useCallback(
+    (selection: ArtworkSelection) => {
+      flyTo(selection);
+      onArtworkSelect?.(selection);
+    },
+    [flyTo, onArtworkSelect]
+  );
 
-    const onWheel = (e: WheelEvent) => {
-      e.preventDefault();
-      s.scrollAccum += e.deltaY * 0.006;
-    };
+  React.useEffect(() => {
+    const canvas = gl.domElement;
+    const s = state.current;
+    canvas.tabIndex = 0;
+    canvas.setAttribute("aria-label", CANVAS_LABEL);
 
-    const onTouchStart = (e: TouchEvent) => {
-      e.preventDefault();
-      s.lastTouches = Array.from(e.touches) as Touch[];
-      s.lastTouchDist = getTouchDistance(s.lastTouches);
-      setCursor("grabbing");
+    const browseTo = (plane: BatchPlane) => {
+      s.browsing = plane;
+      startFlight(getFramingPosition(camera as THREE.PerspectiveCamera, getPlaneSelection(plane), BROWSE_MARGIN));
+      onAnnounce?.(describeMedia(plane.media));
     };
 
-    const onTouchMove = (e: TouchEvent) => {
-      e.preventDefault();
-      const touches = Array.from(e.touches) as Touch[];
-
-      if (touches.length === 1 && s.lastTouches.length >= 1) {
-        const [touch] = touches;
-        const [last] = s.lastTouches;
+    const browseNext = (plane: BatchPlane) => {
+      s.browseHistory = [...s.browseHistory, plane.id].slice(-BROWSE_HISTORY);
+      browseTo(plane);
+    };
 
-        if (touch && last) {
-          s.targetVel.x -= (touch.clientX - last.clientX) * 0.02;
-          s.targetVel.y += (touch.clientY - last.clientY) * 0.02;
-        }
-      } else if (touches.length === 2 && s.lastTouchDist > 0) {
-        const dist = getTouchDistance(touches);
-        s.scrollAccum += (s.lastTouchDist - dist) * 0.006;
-        s.lastTouchDist = dist;
+    const onKeyDown = (e: KeyboardEvent) => {
+      // While inspecting, the details panel owns the keyboard
+      if (s.savedPos) return;
+
+      const current = s.browsing;
+      const direction = ARROW_DIRECTIONS[e.key];
+
+      if (e.key === "Tab" && e.shiftKey) {
+        // With nowhere to go back to, let focus leave the canvas
+        const history = s.browseHistory.slice(0, -1);
+        const previousId = history[history.length - 1];
+        const previous = previousId ? [...batchStore.planes].find((plane) => plane.id === previousId) : undefined;
+        if (!current || !previous) return;
+
+        e.preventDefault();
+        s.browseHistory = history;
+        browseTo(previous);
+      } else if (e.key === "Tab") {
+        const next = pickNearestPlane(
+          getNavigablePlanes(batchStore.planes, s.basePos.z),
+          current?.position ?? s.basePos,
+          s.browseHistory
+        );
+        if (!next) return;
+
+        e.preventDefault();
+        browseNext(next);
+      } else if (direction && current) {
+        e.preventDefault();
+        const next = pickPlaneInDirection(getNavigablePlanes(batchStore.planes, s.basePos.z), current, direction);
+        if (next) browseNext(next);
+      } else if (e.key === "Enter" && current) {
+        e.preventDefault();
+        handleSelect(getPlaneSelection(current));
+      } else if (e.key === "Escape" && current) {
+        s.browsing = null;
+        s.browseHistory = [];
+        onAnnounce?.("Stopped browsing artworks");
       }
-
-      s.lastTouches = touches;
     };
 
-    const onTouchEnd = (e: TouchEvent) => {
-      s.lastTouches = Array.from(e.touches) as Touch[];
-      s.lastTouchDist = getTouchDistance(s.lastTouches);
-      setCursor("grab");
-    };
+    canvas.addEventListener("keydown", onKeyDown);
+    return () => canvas.removeEventListener("keydown", onKeyDown);
+  }, [gl, camera, batchStore, startFlight, handleSelect, onAnnounce]);
 
-    canvas.addEventListener("mousedown", onMouseDown);
-    window.addEventListener("mouseup", onMouseUp);
-    window.addEventListener("mousemove", onMouseMove);
-    canvas.addEventListener("mouseleave", onMouseLeave);
-    canvas.addEventListener("wheel", onWheel, { passive: false });
-    canvas.addEventListener("touchstart", onTouchStart, { passive: false });
-    canvas.addEventListener("touchmove", onTouchMove, { passive: false });
-    canvas.addEventListener("touchend", onTouchEnd, { passive: false });
+  const prevParamsRef = React.useRef(layoutParams);
+  const prevMediaRef = React.useRef(media);
+  React.useEffect(() => {
+    // Cached planes bake in media aspect ratios and indices, so a new collection invalidates them too
+    if (prevParamsRef.current !== layoutParams || prevMediaRef.current !== media) {
+      clearPlaneCache();
+      prevParamsRef.current = layoutParams;
+      prevMediaRef.current = media;
+    }
+  }, [layoutParams, media]);
+
+  const inputSources = React.useMemo(
+    () => [
+      createKeyboardSource(keyBindings),
+      createPointerSource(),
+      createTouchSource(),
+      createGamepadSource(),
+      createXRControllerSource(() => gl.xr.getSession()),
+    ],
+    [gl, keyBindings]
+  );
 
+  React.useEffect(() => {
+    const cleanups = inputSources.map((source) => source.attach?.(state.current, gl.domElement));
     return () => {
-      canvas.removeEventListener("mousedown", onMouseDown);
-      window.removeEventListener("mouseup", onMouseUp);
-      window.removeEventListener("mousemove", onMouseMove);
-      canvas.removeEventListener("mouseleave", onMouseLeave);
-      canvas.removeEventListener("wheel", onWheel);
-      canvas.removeEventListener("touchstart", onTouchStart);
-      canvas.removeEventListener("touchmove", onTouchMove);
-      canvas.removeEventListener("touchend", onTouchEnd);
+      for (const cleanup of cleanups) cleanup?.();
     };
-  }, [gl]);
+  }, [gl, inputSources]);
 
   useFrame(() => {
     const s = state.current;
     const now = performance.now();
 
-    const { forward, backward, left, right, up, down } = getKeys();
-    if (forward) s.targetVel.z -= KEYBOARD_SPEED;
-    if (backward) s.targetVel.z += KEYBOARD_SPEED;
-    if (left) s.targetVel.x -= KEYBOARD_SPEED;
-    if (right) s.targetVel.x += KEYBOARD_SPEED;
-    if (down) s.targetVel.y -= KEYBOARD_SPEED;
-    if (up) s.targetVel.y += KEYBOARD_SPEED;
+    if (s.savedPos || s.flight) {
+      // Inspecting an artwork: input is locked and the camera follows the flight path
+      s.velocity = { x: 0, y: 0, z: 0 };
+      s.targetVel = { x: 0, y: 0, z: 0 };
+      s.scrollAccum = 0;
+      s.drift.x = lerp(s.drift.x, 0, 0.2);
+      s.drift.y = lerp(s.drift.y, 0, 0.2);
+
+      const flight = s.flight;
+      if (flight) {
+        const t = flight.duration > 0 ? clamp((now - flight.start) / flight.duration, 0, 1) : 1;
+        const e = easeInOutCubic(t);
+        s.basePos.x = lerp(flight.from.x, flight.to.x, e);
+        s.basePos.y = lerp(flight.from.y, flight.to.y, e);
+        s.basePos.z = lerp(flight.from.z, flight.to.z, e);
+        if (t >= 1) {
+          s.flight = null;
+          flight.onDone?.();
+        }
+      }
+    }
+
+    if (s.pointerInput) {
+      // Grabbing the view ends keyboard browsing
+      s.pointerInput = false;
+      s.browsing = null;
+    }
+
+    if (!s.savedPos) {
+      for (const source of inputSources) source.poll?.(s);
+    }
 
     const isZooming = Math.abs(s.velocity.z) > 0.05;
     const zoomFactor = clamp(s.basePos.z / 50, 0.3, 2.0);
     const driftAmount = 8.0 * zoomFactor;
     const driftLerp = isZooming ? 0.2 : 0.12;
 
-    if (s.isDragging) {
+    if (s.isDragging || s.savedPos) {
       // Freeze drift during drag - keep it at current value
-    } else if (isTouchDevice) {
+    } else if (isTouchDevice || reducedMotion) {
       s.drift.x = lerp(s.drift.x, 0, driftLerp);
       s.drift.y = lerp(s.drift.y, 0, driftLerp);
     } else {
@@ -603,44 +620,23 @@ function SceneController({
 
     cameraGridRef.current = { cx, cy, cz, camZ: s.basePos.z };
 
-    const key = `${cx},${cy},${cz}`;
-    if (key !== s.lastChunkKey) {
-      s.pendingChunk = { cx, cy, cz };
-      s.lastChunkKey = key;
-    }
-
     const throttleMs = getChunkUpdateThrottleMs(isZooming, Math.abs(s.velocity.z));
 
-    if (s.pendingChunk && shouldThrottleUpdate(s.lastChunkUpdate, throttleMs, now)) {
-      const { cx: ucx, cy: ucy, cz: ucz } = s.pendingChunk;
-      s.pendingChunk = null;
+    if (shouldThrottleUpdate(s.lastChunkUpdate, throttleMs, now)) {
       s.lastChunkUpdate = now;
-
-      setChunks(
-        CHUNK_OFFSETS.map((o) => ({
-          key: `${ucx + o.dx},${ucy + o.dy},${ucz + o.dz}`,
-          cx: ucx + o.dx,
-          cy: ucy + o.dy,
-          cz: ucz + o.dz,
-        }))
-      );
+      updateChunks(s.velocity);
     }
   });
 
   React.useEffect(() => {
     const s = state.current;
     s.basePos = { x: camera.position.x, y: camera.position.y, z: camera.position.z };
-
-    setChunks(
-      CHUNK_OFFSETS.map((o) => ({
-        key: `${o.dx},${o.dy},${o.dz}`,
-        cx: o.dx,
-        cy: o.dy,
-        cz: o.dz,
-      }))
-    );
   }, [camera]);
 
+  React.useEffect(() => {
+    updateChunks(state.current.velocity);
+  }, [updateChunks]);
+
   return (
     <>
       {chunks.map((chunk) => (
@@ -650,13 +646,29 @@ function SceneController({
           cy={chunk.cy}
           cz={chunk.cz}
           media={media}
-          cameraGridRef={cameraGridRef}
-          focusRef={focusRef}
+          batchStore={batchStore}
           layoutParams={layoutParams}
+          particleScale={reducedMotion ? 0 : quality.overlayParticles}
         />
       ))}
-      <FocusEffects3D focusRef={focusRef} effectType={focusEffectType} />
-      <BackgroundUpdater focusRef={focusRef} onFocusChange={onFocusChange} baseColor={backgroundColor} />
+      <PlaneBatch
+        store={batchStore}
+        cameraGridRef={cameraGridRef}
+        focusRef={focusRef}
+        renderDistance={quality.renderDistance}
+        textureScale={quality.textureScale}
+        playMedia={!reducedMotion}
+        onSelect={handleSelect}
+      />
+      {!reducedMotion && (
+        <FocusEffects3D focusRef={focusRef} effectType={focusEffectType} particleScale={quality.focusParticles} />
+      )}
+      <BackgroundUpdater
+        focusRef={focusRef}
+        onFocusChange={onFocusChange}
+        baseColor={backgroundColor}
+        backgroundStyle={backgroundStyle}
+      />
     </>
   );
 }
@@ -668,6 +680,8 @@ export function InfiniteCanvasScene({
   focusEffectType = "fire",
   showFps = false,
   showControls = false,
+  showTextureStats = false,
+  textureBudgetBytes,
   cameraFov = 60,
   cameraNear = 1,
   cameraFar = 500,
@@ -675,52 +689,90 @@ export function InfiniteCanvasScene({
   fogFar = 320,
   backgroundColor = "#ffffff",
   fogColor = "#ffffff",
+  backgroundStyle = "solid",
+  quality = "auto",
   layoutParams = DEFAULT_LAYOUT_PARAMS,
+  keyBindings = DEFAULT_KEY_BINDINGS,
+  onArtworkSelect,
+  controllerRef,
+  initialCameraPosition,
 }: InfiniteCanvasProps) {
   const isTouchDevice = useIsTouchDevice();
-  const dpr = Math.min(window.devicePixelRatio || 1, isTouchDevice ? 1.25 : 1.5);
+  const reducedMotion = useReducedMotion();
+  const [announcement, setAnnouncement] = React.useState("");
+  const [autoTier, setAutoTier] = React.useState<QualityTier>("high");
+  const tier = quality === "auto" ? autoTier : quality;
+  const settings = QUALITY_SETTINGS[tier];
+  const dpr = Math.min(window.devicePixelRatio || 1, settings.maxDpr, isTouchDevice ? 1.25 : settings.maxDpr);
 
-  if (!media.length) {
-    return null;
-  }
+  React.useEffect(() => {
+    if (textureBudgetBytes !== undefined) setTextureBudget(textureBudgetBytes);
+  }, [textureBudgetBytes]);
 
   return (
-    <KeyboardControls map={KEYBOARD_MAP}>
-      <div className={styles.container}>
-        <Canvas
-          camera={{ position: [0, 0, INITIAL_CAMERA_Z], fov: cameraFov, near: cameraNear, far: cameraFar }}
-          dpr={dpr}
-          flat
-          gl={{ antialias: false, powerPreference: "high-performance" }}
-          className={styles.canvas}
-        >
-          <color attach="background" args={[backgroundColor]} />
-          <fog attach="fog" args={[fogColor, fogNear, fogFar]} />
-          <SceneController
-            media={media}
-            onTextureProgress={onTextureProgress}
-            onFocusChange={onFocusChange}
-            focusEffectType={focusEffectType}
-            layoutParams={layoutParams}
-            backgroundColor={backgroundColor}
-          />
-          {showFps && <Stats className={styles.stats} />}
-        </Canvas>
-
-        {showControls && (
-          <div className={styles.controlsPanel}>
-            {isTouchDevice ? (
-              <>
-                <b>Drag</b> Pan · <b>Pinch</b> Zoom
-              </>
-            ) : (
-              <>
-                <b>WASD</b> Move · <b>QE</b> Up/Down · <b>Scroll/Space</b> Zoom
-              </>
-            )}
-          </div>
-        )}
-      </div>
-    </KeyboardControls>
+    <div className={styles.container}>
+      <Canvas
+        camera={{
+          position: initialCameraPosition
+            ? [initialCameraPosition.x, initialCameraPosition.y, initialCameraPosition.z]
+            : [0, 0, INITIAL_CAMERA_Z],
+          fov: cameraFov,
+          near: cameraNear,
+          far: cameraFar,
+        }}
+        dpr={dpr}
+        flat
+        gl={{ antialias: false, powerPreference: "high-performance" }}
+        className={styles.canvas}
+      >
+        <color attach="background" args={[backgroundColor]} />
+        <fog attach="fog" args={[fogColor, fogNear, fogFar]} />
+        <SceneController
+          media={media}
+          onTextureProgress={onTextureProgress}
+          onFocusChange={onFocusChange}
+          focusEffectType={focusEffectType}
+          layoutParams={layoutParams}
+          backgroundColor={backgroundColor}
+          backgroundStyle={backgroundStyle}
+          quality={settings}
+          reducedMotion={reducedMotion}
+          keyBindings={keyBindings}
+          onAnnounce={setAnnouncement}
+          onArtworkSelect={onArtworkSelect}
+          controllerRef={controllerRef}
+        />
+        {quality === "auto" && <QualityGovernor tier={autoTier} onChange={setAutoTier} />}
+        {showFps && <Stats className={styles.stats} />}
+      </Canvas>
+
+      <output className={styles.liveRegion} aria-live="polite">
+        {announcement}
+      </output>
+
+      {showFps && (
+        <div className={styles.qualityBadge}>
+          <b>Quality</b> {tier}
+          {quality === "auto" && " (auto)"}
+        </div>
+      )}
+
+      {showTextureStats && <TextureStatsPanel />}
+
+      {showControls && (
+        <div className={styles.controlsPanel}>
+          {isTouchDevice ? (
+            <>
+              <b>Drag</b> Pan · <b>Pinch</b> Zoom
+            </>
+          ) : (
+            <>
+              <b>{formatKeys(keyBindings, ["forward", "left", "backward", "right"])}</b> Move ·{" "}
+              <b>{formatKeys(keyBindings, ["down", "up"])}</b> Up/Down · <b>Scroll/Space</b> Zoom · <b>Tab</b> Browse
+            </>
+          )}
+        </div>
+      )}
+    </div>
   );
 }
@@ -1,141 +1,410 @@
 import * as THREE from "three";
-import type { MediaItem } from "./types";
+import { ANALYSIS_SIZE, type ColorAnalysis, analyzePixels } from "./color-analysis";
+import { canDecodeOffThread, decodeImage } from "./image-decoder";
+import { captureVideoFrame, getFrameColors, isVideoMedia } from "./media-playback";
+import type { MediaItem, PaletteSwatch } from "./types";
 
-const textureCache = new Map<string, THREE.Texture>();
+/** Default GPU budget for textures no mounted plane is using; referenced textures are never evicted. */
+export const DEFAULT_TEXTURE_BUDGET_BYTES = 256 * 1024 * 1024;
+
+type TextureEntry = {
+  texture: THREE.Texture;
+  /** Mounted planes currently showing this texture. */
+  refs: number;
+  /** Estimated GPU size once loaded, 0 while loading. */
+  bytes: number;
+  /** Set when the load failed; the next acquire tries again, and the entry goes once unreferenced. */
+  failed?: boolean;
+};
+
+export type TextureStats = {
+  textures: number;
+  referenced: number;
+  loading: number;
+  failed: number;
+  bytes: number;
+  budgetBytes: number;
+  evictions: number;
+  reloads: number;
+};
+
+// Insertion order doubles as LRU order: entries are moved to the end whenever they are used
+const textures = new Map<string, TextureEntry>();
+const evictedKeys = new Set<string>();
+let budgetBytes = DEFAULT_TEXTURE_BUDGET_BYTES;
+let totalBytes = 0;
+let evictions = 0;
+let reloads = 0;
+
+// Sampled at runtime, keyed by item url
 const dominantColorCache = new Map<string, THREE.Color>();
+const paletteCache = new Map<string, PaletteSwatch[]>();
+// Parsed `MediaItem.dominantColor` values, keyed by hex
+const precomputedColors = new Map<string, THREE.Color>();
+const paletteColors = new WeakMap<PaletteSwatch[], THREE.Color[]>();
+
+// Sampled colors hold raw sRGB components, so read hex values the same way rather than converting them
+const parseSampledColor = (hex: string): THREE.Color => new THREE.Color().setStyle(hex, THREE.LinearSRGBColorSpace);
 const loadCallbacks = new Map<string, Set<(tex: THREE.Texture) => void>>();
 const loader = new THREE.TextureLoader();
 
-const colorCanvas = document.createElement("canvas");
-colorCanvas.width = 16;
-colorCanvas.height = 16;
-const colorCtx = colorCanvas.getContext("2d", { willReadFrequently: true })!;
+let colorCtx: CanvasRenderingContext2D | null = null;
 
-export const getDominantColor = (item: MediaItem, texture: THREE.Texture): THREE.Color | null => {
-  const key = item.url;
-  const cached = dominantColorCache.get(key);
-  if (cached) return cached;
+/**
+ * Dominant color of an item: that of the frame playing for video and animated items, else the
+ * precomputed `dominantColor` when present, else the one sampled when its first texture level loaded
+ * (in the image worker where available). Null until then; cheap per frame.
+ */
+export const getDominantColor = (item: MediaItem): THREE.Color | null => {
+  const frame = getFrameColors(item);
+  if (frame) return frame.dominant;
 
-  const img = texture.image as HTMLImageElement | undefined;
-  if (!(img instanceof HTMLImageElement) || !img.complete || img.naturalWidth === 0) return null;
-
-  const sz = 32;
-  colorCanvas.width = sz;
-  colorCanvas.height = sz;
-  colorCtx.drawImage(img, 0, 0, sz, sz);
-  const data = colorCtx.getImageData(0, 0, sz, sz).data;
-
-  // Bucket hues of saturated pixels to find the dominant chromatic color
-  const HUE_BUCKETS = 12;
-  const bucketCount = new Float32Array(HUE_BUCKETS);
-  const bucketR = new Float32Array(HUE_BUCKETS);
-  const bucketG = new Float32Array(HUE_BUCKETS);
-  const bucketB = new Float32Array(HUE_BUCKETS);
-  let totalSaturated = 0;
-
-  for (let i = 0; i < data.length; i += 4) {
-    const pr = data[i] / 255;
-    const pg = data[i + 1] / 255;
-    const pb = data[i + 2] / 255;
-    const max = Math.max(pr, pg, pb);
-    const min = Math.min(pr, pg, pb);
-    const delta = max - min;
-    const lightness = (max + min) / 2;
-    const sat = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
-
-    // Only count pixels with meaningful saturation and mid-range lightness
-    if (sat < 0.2 || lightness > 0.9 || lightness < 0.1) continue;
-
-    let hue = 0;
-    if (delta > 0) {
-      if (max === pr) hue = ((pg - pb) / delta + 6) % 6;
-      else if (max === pg) hue = (pb - pr) / delta + 2;
-      else hue = (pr - pg) / delta + 4;
-    }
-    const bucket = Math.floor((hue / 6) * HUE_BUCKETS) % HUE_BUCKETS;
-    // Weight by saturation so vivid colors win over dull ones
-    const weight = sat;
-    bucketCount[bucket] += weight;
-    bucketR[bucket] += pr * weight;
-    bucketG[bucket] += pg * weight;
-    bucketB[bucket] += pb * weight;
-    totalSaturated += weight;
+  const hex = item.dominantColor;
+  if (!hex) return dominantColorCache.get(item.url) ?? null;
+
+  let color = precomputedColors.get(hex);
+  if (!color) {
+    color = parseSampledColor(hex);
+    precomputedColors.set(hex, color);
   }
+  return color;
+};
 
-  let color: THREE.Color;
-  if (totalSaturated < 5) {
-    // Not enough chromatic pixels — fall back to simple average
-    let r = 0,
-      g = 0,
-      b = 0;
-    const pixels = sz * sz;
-    for (let i = 0; i < data.length; i += 4) {
-      r += data[i];
-      g += data[i + 1];
-      b += data[i + 2];
-    }
-    color = new THREE.Color(r / pixels / 255, g / pixels / 255, b / pixels / 255);
+/** Palette of an item, precomputed or sampled like `getDominantColor`. */
+export const getPalette = (item: MediaItem): PaletteSwatch[] | null =>
+  getFrameColors(item)?.palette ?? item.palette ?? paletteCache.get(item.url) ?? null;
+
+/** `getPalette` as colors comparable with `getDominantColor`, heaviest first. */
+export const getPaletteColors = (item: MediaItem): THREE.Color[] | null => {
+  const palette = getPalette(item);
+  if (!palette) return null;
+
+  let colors = paletteColors.get(palette);
+  if (!colors) {
+    colors = palette.map((swatch) => parseSampledColor(swatch.color));
+    paletteColors.set(palette, colors);
+  }
+  return colors;
+};
+
+// Precomputed colors skip sampling entirely
+const needsColorAnalysis = (item: MediaItem): boolean => !(item.dominantColor && item.palette) && !paletteCache.has(item.url);
+
+const storeColors = (url: string, { dominant, palette }: ColorAnalysis) => {
+  dominantColorCache.set(url, new THREE.Color(...dominant));
+  paletteCache.set(url, palette);
+};
+
+/** Main-thread fallback for browsers without worker decoding. */
+const analyzeOnMainThread = (url: string, img: CanvasImageSource) => {
+  if (!colorCtx) {
+    const canvas = document.createElement("canvas");
+    canvas.width = ANALYSIS_SIZE;
+    canvas.height = ANALYSIS_SIZE;
+    colorCtx = canvas.getContext("2d", { willReadFrequently: true });
+  }
+  if (!colorCtx) return;
+
+  colorCtx.clearRect(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+  colorCtx.drawImage(img, 0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE);
+  storeColors(url, analyzePixels(colorCtx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE).data));
+};
+
+/** One rung of an item's resolution ladder, or one tile of a deep zoom. */
+export type TextureLevel = {
+  /** Cache key; generated levels share their source url. */
+  key: string;
+  url: string;
+  width: number;
+  height: number;
+  /** Source item url, which dominant color and palette are cached under. */
+  itemUrl: string;
+  /** Downscaled on the client from `url` rather than fetched at this size. */
+  generated: boolean;
+  /** A still frame grabbed from a video; see `media-playback`. */
+  video: boolean;
+};
+
+// Client-side downscales for items without manifest `sources`
+const GENERATED_LEVEL_WIDTHS = [64, 256, 1024];
+// Ask for a level at least this many texels per on-screen pixel before upgrading
+const LEVEL_OVERSAMPLE = 1;
+// Only drop a level once the plane needs less than this share of the level below
+const DOWNGRADE_HYSTERESIS = 0.75;
+
+const ladderCache = new WeakMap<MediaItem, TextureLevel[]>();
+const imageLoader = new THREE.ImageLoader();
+const pendingImages = new Map<string, Promise<HTMLImageElement>>();
+
+/** Resolutions available for an item, smallest first; the last level is always the original. */
+export const getResolutionLadder = (item: MediaItem): TextureLevel[] => {
+  const cached = ladderCache.get(item);
+  if (cached) return cached;
+
+  const aspect = item.width && item.height ? item.width / item.height : 1;
+  const video = isVideoMedia(item);
+  const full: TextureLevel = {
+    key: item.url,
+    url: item.url,
+    itemUrl: item.url,
+    width: item.width,
+    height: item.height,
+    generated: false,
+    video,
+  };
+  let ladder: TextureLevel[];
+
+  if (item.sources?.length) {
+    const smaller = item.sources
+      .filter((s) => s.url !== item.url && (!item.width || s.width < item.width))
+      .map((s) => ({
+        key: s.url,
+        url: s.url,
+        itemUrl: item.url,
+        width: s.width,
+        height: s.height ?? Math.round(s.width / aspect),
+        generated: false,
+        video,
+      }));
+    ladder = [...smaller.sort((a, b) => a.width - b.width), full];
+  } else if (item.width) {
+    const generated = GENERATED_LEVEL_WIDTHS.filter((w) => w < item.width).map((w) => ({
+      key: `${item.url}#${w}`,
+      url: item.url,
+      itemUrl: item.url,
+      width: w,
+      height: Math.max(1, Math.round(w / aspect)),
+      generated: true,
+      video,
+    }));
+    ladder = [...generated, full];
   } else {
-    // Find the hue bucket with the most weight
-    let bestBucket = 0;
-    for (let i = 1; i < HUE_BUCKETS; i++) {
-      if (bucketCount[i] > bucketCount[bestBucket]) bestBucket = i;
-    }
-    const w = bucketCount[bestBucket];
-    color = new THREE.Color(bucketR[bestBucket] / w, bucketG[bestBucket] / w, bucketB[bestBucket] / w);
+    ladder = [full];
   }
 
-  dominantColorCache.set(key, color);
-  return color;
+  ladderCache.set(item, ladder);
+  return ladder;
 };
 
-const isTextureLoaded = (tex: THREE.Texture): boolean => {
-  const img = tex.image as HTMLImageElement | undefined;
-  return img instanceof HTMLImageElement && img.complete && img.naturalWidth > 0;
+/**
+ * Ladder level for a plane drawn `pixelHeight` device pixels tall, given the level it shows now.
+ * Upgrades as soon as the current level is too coarse, downgrades only with some slack.
+ */
+export const pickTextureLevel = (ladder: TextureLevel[], pixelHeight: number, current: number): number => {
+  const needed = pixelHeight * LEVEL_OVERSAMPLE;
+  let desired = ladder.findIndex((level) => level.height >= needed);
+  if (desired === -1) desired = ladder.length - 1;
+
+  if (desired < current && needed > ladder[current - 1].height * DOWNGRADE_HYSTERESIS) {
+    return current;
+  }
+  return desired;
 };
 
-export const getTexture = (item: MediaItem, onLoad?: (texture: THREE.Texture) => void): THREE.Texture => {
-  const key = item.url;
-  const existing = textureCache.get(key);
+// RGBA8 plus a third for the mipmap chain
+const estimateTextureBytes = (width: number, height: number, mipmaps: boolean): number =>
+  Math.ceil(width * height * 4 * (mipmaps ? 4 / 3 : 1));
+
+const configureTexture = (tex: THREE.Texture) => {
+  tex.minFilter = THREE.LinearMipmapLinearFilter;
+  tex.magFilter = THREE.LinearFilter;
+  tex.generateMipmaps = true;
+  tex.anisotropy = 4;
+  tex.colorSpace = THREE.SRGBColorSpace;
+  tex.needsUpdate = true;
+};
 
-  if (existing) {
-    if (onLoad) {
-      if (isTextureLoaded(existing)) {
-        onLoad(existing);
-      } else {
-        loadCallbacks.get(key)?.add(onLoad);
+/** Decode an image once for every generated level waiting on it. */
+const loadImage = (url: string): Promise<HTMLImageElement> => {
+  let pending = pendingImages.get(url);
+  if (!pending) {
+    pending = imageLoader.loadAsync(url).finally(() => pendingImages.delete(url));
+    pendingImages.set(url, pending);
+  }
+  return pending;
+};
+
+const downscale = (img: HTMLImageElement | HTMLCanvasElement, level: TextureLevel): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = level.width;
+  canvas.height = level.height;
+  canvas.getContext("2d")?.drawImage(img, 0, 0, level.width, level.height);
+  return canvas;
+};
+
+const touchTexture = (key: string, entry: TextureEntry) => {
+  textures.delete(key);
+  textures.set(key, entry);
+};
+
+/** Dispose least-recently-used textures that no plane references until the cache fits the budget. */
+const evictUnusedTextures = () => {
+  for (const [key, entry] of textures) {
+    if (totalBytes <= budgetBytes) break;
+    if (entry.refs > 0 || !entry.bytes) continue;
+
+    entry.texture.dispose();
+    // Worker-decoded bitmaps hold decoded pixels until closed
+    if (entry.texture.image instanceof ImageBitmap) entry.texture.image.close();
+    textures.delete(key);
+    evictedKeys.add(key);
+    totalBytes -= entry.bytes;
+    evictions++;
+  }
+};
+
+export const setTextureBudget = (bytes: number): void => {
+  budgetBytes = Math.max(0, bytes);
+  evictUnusedTextures();
+};
+
+export const getTextureStats = (): TextureStats => {
+  let referenced = 0;
+  let loading = 0;
+  let failed = 0;
+  for (const entry of textures.values()) {
+    if (entry.refs > 0) referenced++;
+    if (entry.failed) failed++;
+    else if (!entry.bytes) loading++;
+  }
+  return { textures: textures.size, referenced, loading, failed, bytes: totalBytes, budgetBytes, evictions, reloads };
+};
+
+/** Start loading `level`; a retry after a failure takes over the failed entry's references and callbacks. */
+const loadTexture = (level: TextureLevel, analyze: boolean, refs = 0): TextureEntry => {
+  const { key } = level;
+  if (!loadCallbacks.has(key)) loadCallbacks.set(key, new Set());
+  if (evictedKeys.delete(key)) reloads++;
+
+  const entry: TextureEntry = { texture: new THREE.Texture(), refs, bytes: 0 };
+
+  // Kept while referenced, so whoever holds it can retry; dropped straight away otherwise
+  const onFailed = (err: unknown) => {
+    console.error("Texture load failed:", key, err);
+    if (textures.get(key) !== entry) return;
+    entry.failed = true;
+    if (!entry.refs) {
+      textures.delete(key);
+      loadCallbacks.delete(key);
+    }
+  };
+
+  const onLoaded = (tex: THREE.Texture, width: number, height: number) => {
+    configureTexture(tex);
+
+    // Evicted while loading: nothing to account for
+    if (textures.get(key) === entry) {
+      entry.bytes = estimateTextureBytes(width, height, tex.generateMipmaps);
+      totalBytes += entry.bytes;
+    }
+
+    loadCallbacks.get(key)?.forEach((cb) => {
+      try {
+        cb(tex);
+      } catch (err) {
+        console.error(`Callback failed: ${JSON.stringify(err)}`);
       }
+    });
+    loadCallbacks.delete(key);
+    evictUnusedTextures();
+  };
+
+  if (level.video) {
+    captureVideoFrame(level.url).then((frame) => {
+      if (analyze) analyzeOnMainThread(level.itemUrl, frame);
+      const image = level.generated ? downscale(frame, level) : frame;
+      entry.texture.image = image;
+      onLoaded(entry.texture, image.width, image.height);
+    }, onFailed);
+  } else if (canDecodeOffThread()) {
+    // Keep drei's useProgress (and the page loader) aware of loads that bypass three's loaders
+    const manager = THREE.DefaultLoadingManager;
+    manager.itemStart(key);
+    decodeImage(level.url, level.generated ? { width: level.width, height: level.height, analyze } : { analyze })
+      .then(({ bitmap, colors }) => {
+        if (colors) storeColors(level.itemUrl, colors);
+        entry.texture.image = bitmap;
+        // Flipped while decoding, see image-worker
+        entry.texture.flipY = false;
+        onLoaded(entry.texture, bitmap.width, bitmap.height);
+      })
+      .catch((err) => {
+        onFailed(err);
+        manager.itemError(key);
+      })
+      .finally(() => manager.itemEnd(key));
+  } else if (level.generated) {
+    loadImage(level.url).then((img) => {
+      if (analyze) analyzeOnMainThread(level.itemUrl, img);
+      entry.texture.image = downscale(img, level);
+      onLoaded(entry.texture, level.width, level.height);
+    }, onFailed);
+  } else {
+    entry.texture = loader.load(
+      level.url,
+      (tex) => {
+        const img = tex.image as HTMLImageElement;
+        if (analyze) analyzeOnMainThread(level.itemUrl, img);
+        onLoaded(tex, img.naturalWidth, img.naturalHeight);
+      },
+      undefined,
+      onFailed
+    );
+  }
+
+  textures.set(key, entry);
+  return entry;
+};
+
+const retainLevel = (level: TextureLevel, analyze: boolean, onLoad?: (texture: THREE.Texture) => void): THREE.Texture => {
+  const existing = textures.get(level.key);
+  const entry = existing && !existing.failed ? existing : loadTexture(level, analyze, existing?.refs);
+  entry.refs++;
+  touchTexture(level.key, entry);
+
+  if (onLoad) {
+    if (entry.bytes) {
+      onLoad(entry.texture);
+    } else {
+      loadCallbacks.get(level.key)?.add(onLoad);
     }
-    return existing;
   }
 
-  const callbacks = new Set<(tex: THREE.Texture) => void>();
-  if (onLoad) callbacks.add(onLoad);
-  loadCallbacks.set(key, callbacks);
-
-  const texture = loader.load(
-    key,
-    (tex) => {
-      tex.minFilter = THREE.LinearMipmapLinearFilter;
-      tex.magFilter = THREE.LinearFilter;
-      tex.generateMipmaps = true;
-      tex.anisotropy = 4;
-      tex.colorSpace = THREE.SRGBColorSpace;
-      tex.needsUpdate = true;
-
-      loadCallbacks.get(key)?.forEach((cb) => {
-        try {
-          cb(tex);
-        } catch (err) {
-          console.error(`Callback failed: ${JSON.stringify(err)}`);
-        }
-      });
-      loadCallbacks.delete(key);
-    },
-    undefined,
-    (err) => console.error("Texture load failed:", key, err)
-  );
+  return entry.texture;
+};
+
+/**
+ * Texture for one level of a media item's ladder, loading it (again, if it was evicted) when needed.
+ * Each call must be paired with `releaseTexture` once the caller stops displaying it.
+ */
+export const acquireTexture = (item: MediaItem, levelIndex: number, onLoad?: (texture: THREE.Texture) => void): THREE.Texture => {
+  const ladder = getResolutionLadder(item);
+  return retainLevel(ladder[Math.min(levelIndex, ladder.length - 1)], needsColorAnalysis(item), onLoad);
+};
+
+/** `acquireTexture` for an image that isn't on any ladder, like a deep zoom tile; pair with `releaseLevelTexture`. */
+export const acquireLevelTexture = (level: TextureLevel, onLoad?: (texture: THREE.Texture) => void): THREE.Texture =>
+  retainLevel(level, false, onLoad);
+
+export const releaseLevelTexture = (level: TextureLevel, onLoad?: (texture: THREE.Texture) => void): void => {
+  const { key } = level;
+  const entry = textures.get(key);
+  if (onLoad) loadCallbacks.get(key)?.delete(onLoad);
+  if (!entry) return;
+
+  entry.refs = Math.max(0, entry.refs - 1);
+  touchTexture(key, entry);
+  if (entry.refs) return;
+
+  if (entry.failed) {
+    textures.delete(key);
+    loadCallbacks.delete(key);
+  }
+  evictUnusedTextures();
+};
 
-  textureCache.set(key, texture);
-  return texture;
+/** Drop one reference taken by `acquireTexture`; unreferenced textures become eligible for eviction. */
+export const releaseTexture = (item: MediaItem, levelIndex: number, onLoad?: (texture: THREE.Texture) => void): void => {
+  const ladder = getResolutionLadder(item);
+  releaseLevelTexture(ladder[Math.min(levelIndex, ladder.length - 1)], onLoad);
 };
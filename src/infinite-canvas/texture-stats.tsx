@@ -0,0 +1,31 @@
+import * as React from "react";
+import styles from "./style.module.css";
+import { getTextureStats } from "./texture-manager";
+
+const POLL_MS = 500;
+
+const formatMb = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/** Debug readout of the texture cache, polled outside the render loop. */
+export function TextureStatsPanel() {
+  const [stats, setStats] = React.useState(getTextureStats);
+
+  React.useEffect(() => {
+    const id = setInterval(() => setStats(getTextureStats()), POLL_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  return (
+    <div className={styles.texturePanel}>
+      <div>
+        <b>Textures</b> {stats.textures} ({stats.referenced} in use, {stats.loading} loading, {stats.failed} failed)
+      </div>
+      <div>
+        <b>Memory</b> {formatMb(stats.bytes)} / {formatMb(stats.budgetBytes)}
+      </div>
+      <div>
+        <b>Evicted</b> {stats.evictions} · <b>Reloaded</b> {stats.reloads}
+      </div>
+    </div>
+  );
+}
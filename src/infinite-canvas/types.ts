@@ -1,23 +1,79 @@
+import type * as React from "react";
 import type * as THREE from "three";
 
+/** A pre-scaled copy of an image, like one entry of an `srcset`. */
+export type MediaRendition = {
+  url: string;
+  width: number;
+  /** Derived from the item's aspect ratio when omitted. */
+  height?: number;
+};
+
+/** One color of an item's palette; weights of a palette sum to at most 1. */
+export type PaletteSwatch = {
+  /** `#rrggbb` */
+  color: string;
+  /** Share of the image's pixels this color covers. */
+  weight: number;
+};
+
 export type MediaItem = {
   url: string;
   width: number;
   height: number;
+  /** Smaller renditions to show while the camera is far away; the original `url` is the largest. */
+  sources?: MediaRendition[];
+  /**
+   * Base url of a IIIF Image API service for the item (without `/info.json`). Planes zoomed in past
+   * `url` fetch tiles of the region on screen from it; see `deep-zoom`.
+   */
+  iiif?: string;
+  /** `#rrggbb`, precomputed by the manifest script or on upload; sampled at runtime otherwise. */
   dominantColor?: string;
-  palette?: string[];
+  /** Heaviest swatch first. */
+  palette?: PaletteSwatch[];
   title?: string;
   artist?: string;
   year?: string;
   link?: string;
+  /** MIME type. Video (mp4, webm) and GIF / WebP items play on planes; without it the url extension decides. */
   type?: string;
+  /** Set for local uploads; the IndexedDB key of the stored file. */
+  uploadId?: string;
+  /** Anything else known about the item; see `MediaMeta`. */
+  meta?: MediaMeta;
 };
 
+/**
+ * Open-ended facts about an item, readable and filterable by the assistant. Uploads fill in what their
+ * EXIF / XMP metadata has: `capturedAt` (ISO 8601), `camera`, `lens`, `latitude`, `longitude`,
+ * `description`, `keywords` and `copyright`.
+ */
+export type MediaMeta = Record<string, string | number>;
+
 export type FocusColor = { r: number; g: number; b: number };
 
 export type FocusEffectType = "fire" | "cloud" | "flowers";
 
-export type LayoutMode = "random" | "grid";
+/** "solid" fills with the focus color; the others are shader backgrounds built from the focused artwork's palette. */
+export type BackgroundStyle = "solid" | "linear" | "radial" | "noise";
+
+/** Rendering cost tier; see `QUALITY_SETTINGS`. */
+export type QualityTier = "low" | "medium" | "high";
+
+/** A fixed tier, or "auto" to let the frame-time governor pick one. */
+export type QualityMode = QualityTier | "auto";
+
+/** Camera movements that keys can be bound to. */
+export type InputAction = "forward" | "backward" | "left" | "right" | "up" | "down";
+
+/** `KeyboardEvent.code` values per action, so bindings follow key positions rather than layouts. */
+export type KeyBindings = Record<InputAction, string[]>;
+
+export type LayoutMode = "random" | "grid" | "corridor" | "wall" | "spiral" | "sphere";
+
+/** How planes pick their media: independent random draws, or a lattice with no nearby repeats. */
+export type MediaDistribution = "random" | "balanced";
 
 export type LayoutParams = {
   itemsPerChunk: number;
@@ -26,6 +82,21 @@ export type LayoutParams = {
   spacing: number;
   mode: LayoutMode;
   depthSpread: number;
+  distribution: MediaDistribution;
+  /** With "balanced", no artwork repeats within this many chunks (reduced for small collections). */
+  uniqueRadius: number;
+  /** corridor: distance between the two side walls. */
+  corridorWidth: number;
+  /** corridor: how far the walls turn from facing the viewer, in degrees (90 would be edge-on). */
+  corridorAngle: number;
+  /** wall: masonry columns per chunk. */
+  wallColumns: number;
+  /** spiral: helix radius around the Z axis. */
+  spiralRadius: number;
+  /** spiral: Z distance of one full turn. */
+  spiralPitch: number;
+  /** sphere: radius of the shell around the origin. */
+  sphereRadius: number;
 };
 
 export const DEFAULT_LAYOUT_PARAMS: LayoutParams = {
@@ -35,6 +106,48 @@ export const DEFAULT_LAYOUT_PARAMS: LayoutParams = {
   spacing: 0,
   mode: "random",
   depthSpread: 1,
+  distribution: "balanced",
+  uniqueRadius: 1,
+  corridorWidth: 120,
+  corridorAngle: 70,
+  wallColumns: 3,
+  spiralRadius: 60,
+  spiralPitch: 330,
+  sphereRadius: 160,
+};
+
+/** Artwork the user clicked on, with the world-space placement of its plane. */
+export type ArtworkSelection = {
+  planeId: string;
+  media: MediaItem;
+  position: THREE.Vector3;
+  width: number;
+  height: number;
+};
+
+export type CameraPosition = { x: number; y: number; z: number };
+
+export type CameraTarget = {
+  position: THREE.Vector3;
+  width: number;
+  height: number;
+};
+
+export type FlightOptions = {
+  durationMs?: number;
+};
+
+/** Imperative camera controls exposed by the scene to the UI around it. */
+export type CanvasController = {
+  /** Fly to face a plane; the position before the first flight is remembered. */
+  flyTo: (target: CameraTarget, options?: FlightOptions) => void;
+  /** Fly to the nearest plane showing `url`; null when none is placed nearby. */
+  flyToMedia: (url: string, options?: FlightOptions) => ArtworkSelection | null;
+  /** Fly back to where the camera was before `flyTo` and release input. */
+  restoreCamera: () => void;
+  getCameraPosition: () => CameraPosition;
+  /** Jump straight to a position, cancelling any flight or inspection. */
+  setCameraPosition: (position: CameraPosition) => void;
 };
 
 export type InfiniteCanvasProps = {
@@ -44,6 +157,10 @@ export type InfiniteCanvasProps = {
   focusEffectType?: FocusEffectType;
   showFps?: boolean;
   showControls?: boolean;
+  /** Debug overlay with texture cache memory and eviction counts. */
+  showTextureStats?: boolean;
+  /** GPU memory allowed for textures no plane is showing; see `DEFAULT_TEXTURE_BUDGET_BYTES`. */
+  textureBudgetBytes?: number;
   cameraFov?: number;
   cameraNear?: number;
   cameraFar?: number;
@@ -51,7 +168,15 @@ export type InfiniteCanvasProps = {
   fogFar?: number;
   backgroundColor?: string;
   fogColor?: string;
+  backgroundStyle?: BackgroundStyle;
+  /** Defaults to "auto". The active tier is shown next to the FPS meter. */
+  quality?: QualityMode;
   layoutParams?: LayoutParams;
+  /** Defaults to `DEFAULT_KEY_BINDINGS`. */
+  keyBindings?: KeyBindings;
+  onArtworkSelect?: (selection: ArtworkSelection) => void;
+  controllerRef?: React.RefObject<CanvasController | null>;
+  initialCameraPosition?: CameraPosition;
 };
 
 export type ChunkData = {
@@ -65,5 +190,7 @@ export type PlaneData = {
   id: string;
   position: THREE.Vector3;
   scale: THREE.Vector3;
+  /** Only set by layouts whose planes don't face +Z. */
+  rotation?: THREE.Euler;
   mediaIndex: number;
 };
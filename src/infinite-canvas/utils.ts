@@ -1,7 +1,8 @@
 import * as THREE from "three";
 import { hashString, seededRandom } from "~/src/utils";
-import { CHUNK_SIZE } from "./constants";
-import type { LayoutParams, PlaneData } from "./types";
+import { CHUNK_FADE_MARGIN, CHUNK_OFFSETS, CHUNK_SIZE, DEPTH_FADE_END } from "./constants";
+import { pickMediaIndex, pickSequenceMediaIndex } from "./media-distribution";
+import type { CameraPosition, CameraTarget, ChunkData, LayoutParams, MediaItem, PlaneData } from "./types";
 
 const MAX_PLANE_CACHE = 256;
 const planeCache = new Map<string, PlaneData[]>();
@@ -46,52 +47,150 @@ export const clearPlaneCache = (): void => {
   planeCache.clear();
 };
 
-export const generateChunkPlanes = (cx: number, cy: number, cz: number, params: LayoutParams): PlaneData[] => {
+const aspectsCache = new WeakMap<MediaItem[], number[]>();
+
+/** Width / height of every item, memoised per media array so chunks can share it. */
+export const getMediaAspects = (media: MediaItem[]): number[] => {
+  let aspects = aspectsCache.get(media);
+  if (!aspects) {
+    aspects = media.map((m) => (m.width && m.height ? m.width / m.height : 1));
+    aspectsCache.set(media, aspects);
+  }
+  return aspects;
+};
+
+type ChunkLayout = {
+  cx: number;
+  cy: number;
+  cz: number;
+  params: LayoutParams;
+  aspects: number[];
+};
+
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+const inChunk = ({ cx, cy, cz }: ChunkLayout, p: THREE.Vector3): boolean =>
+  Math.floor(p.x / CHUNK_SIZE) === cx && Math.floor(p.y / CHUNK_SIZE) === cy && Math.floor(p.z / CHUNK_SIZE) === cz;
+
+const randomSize = (params: LayoutParams, r: (n: number) => number) =>
+  params.sizeMin + r(4) * Math.max(0, params.sizeMax - params.sizeMin);
+
+type Rect = { x: number; y: number; halfW: number; halfH: number };
+
+const MAX_PLACEMENT_ATTEMPTS = 12;
+const MAX_SHRINK_STEPS = 3;
+const SHRINK_FACTOR = 0.75;
+
+const overlaps = (a: Rect, b: Rect, gap: number): boolean =>
+  Math.abs(a.x - b.x) < a.halfW + b.halfW + gap && Math.abs(a.y - b.y) < a.halfH + b.halfH + gap;
+
+const getAspect = (aspects: number[], mediaIndex: number): number => (aspects.length ? aspects[mediaIndex % aspects.length] : 1);
+
+/**
+ * random and grid: non-overlapping rectangles sized by each item's aspect ratio.
+ * Every rectangle keeps half of the `spacing` gap to its chunk's edges, so planes in
+ * neighbouring chunks are at least a full gap apart without having to look at them.
+ */
+const scatterPlanes = ({ cx, cy, cz, params, aspects }: ChunkLayout, seed: number): PlaneData[] => {
   const planes: PlaneData[] = [];
-  const seed = hashString(`${cx},${cy},${cz}`);
-  const pad = params.spacing * CHUNK_SIZE;
-  const usable = Math.max(1, CHUNK_SIZE - pad * 2);
-  const sizeRange = Math.max(0, params.sizeMax - params.sizeMin);
+  const gap = params.spacing * CHUNK_SIZE;
+  const usable = CHUNK_SIZE - gap;
+  const cols = Math.ceil(Math.sqrt(params.itemsPerChunk));
+  const rows = Math.ceil(params.itemsPerChunk / cols);
+  const placed: Rect[] = [];
 
-  if (params.mode === "grid") {
-    const cols = Math.ceil(Math.sqrt(params.itemsPerChunk));
-    const rows = Math.ceil(params.itemsPerChunk / cols);
-    const cellW = usable / cols;
-    const cellH = usable / rows;
+  for (let i = 0; i < params.itemsPerChunk; i++) {
+    const s = seed + i * 1000;
+    const r = (n: number) => seededRandom(s + n);
+    const mediaIndex = pickMediaIndex(cx, cy, cz, i, r(5), params, aspects.length);
+    const aspect = getAspect(aspects, mediaIndex);
+    let rect: Rect | null = null;
 
-    for (let i = 0; i < params.itemsPerChunk; i++) {
-      const s = seed + i * 1000;
-      const r = (n: number) => seededRandom(s + n);
-      const size = params.sizeMin + r(4) * sizeRange;
-      const col = i % cols;
-      const row = Math.floor(i / cols);
+    if (params.mode === "grid") {
+      const cellW = CHUNK_SIZE / cols;
+      const cellH = CHUNK_SIZE / rows;
+      // Dense grids can't honour a wide gap; keep at least half of each cell for the artwork
+      const cellGap = Math.min(gap, Math.min(cellW, cellH) / 2);
+      const size = Math.min(randomSize(params, r), (cellW - cellGap) / aspect, cellH - cellGap);
+      if (size > 0) {
+        rect = {
+          x: ((i % cols) + 0.5) * cellW,
+          y: (Math.floor(i / cols) + 0.5) * cellH,
+          halfW: (size * aspect) / 2,
+          halfH: size / 2,
+        };
+      }
+    } else {
+      let size = Math.min(randomSize(params, r), usable / aspect, usable);
 
-      planes.push({
-        id: `${cx}-${cy}-${cz}-${i}`,
-        position: new THREE.Vector3(
-          cx * CHUNK_SIZE + pad + (col + 0.5) * cellW,
-          cy * CHUNK_SIZE + pad + (row + 0.5) * cellH,
-          cz * CHUNK_SIZE + r(2) * CHUNK_SIZE * params.depthSpread,
-        ),
-        scale: new THREE.Vector3(size, size, 1),
-        mediaIndex: Math.floor(r(5) * 1_000_000),
-      });
+      // Try a handful of seeded spots, shrinking the item when the chunk is crowded
+      for (let shrink = 0; shrink <= MAX_SHRINK_STEPS && !rect; shrink++, size *= SHRINK_FACTOR) {
+        const halfW = (size * aspect) / 2;
+        const halfH = size / 2;
+
+        for (let attempt = 0; attempt < MAX_PLACEMENT_ATTEMPTS; attempt++) {
+          const u = attempt === 0 ? r(0) : r(100 + attempt * 2 + shrink * 50);
+          const v = attempt === 0 ? r(1) : r(101 + attempt * 2 + shrink * 50);
+          const candidate = {
+            x: gap / 2 + halfW + u * (usable - halfW * 2),
+            y: gap / 2 + halfH + v * (usable - halfH * 2),
+            halfW,
+            halfH,
+          };
+          if (!placed.some((other) => overlaps(candidate, other, gap))) {
+            rect = candidate;
+            break;
+          }
+        }
+      }
     }
-  } else {
+
+    if (!rect) continue;
+    placed.push(rect);
+
+    planes.push({
+      id: `${cx}-${cy}-${cz}-${i}`,
+      position: new THREE.Vector3(
+        cx * CHUNK_SIZE + rect.x,
+        cy * CHUNK_SIZE + rect.y,
+        cz * CHUNK_SIZE + r(2) * CHUNK_SIZE * params.depthSpread
+      ),
+      scale: new THREE.Vector3(rect.halfH * 2, rect.halfH * 2, 1),
+      mediaIndex,
+    });
+  }
+
+  return planes;
+};
+
+/** Two facing walls at eye level running along Z, turned towards the viewer. */
+const corridorPlanes = (chunk: ChunkLayout, seed: number): PlaneData[] => {
+  const { cx, cy, cz, params, aspects } = chunk;
+  const planes: PlaneData[] = [];
+  if (cy !== 0) return planes;
+
+  const step = CHUNK_SIZE / params.itemsPerChunk;
+  const angle = THREE.MathUtils.degToRad(params.corridorAngle);
+
+  for (const side of [-1, 1]) {
+    const x = (side * params.corridorWidth) / 2;
+    if (Math.floor(x / CHUNK_SIZE) !== cx) continue;
+
     for (let i = 0; i < params.itemsPerChunk; i++) {
-      const s = seed + i * 1000;
+      const s = seed + i * 1000 + (side + 1) * 100;
       const r = (n: number) => seededRandom(s + n);
-      const size = params.sizeMin + r(4) * sizeRange;
+      const slot = cz * params.itemsPerChunk + i;
+      const mediaIndex = pickSequenceMediaIndex(slot * 2 + (side + 1) / 2, r(5), params, aspects.length);
+      // Seen from down the corridor each item spans width * sin(angle) along Z; keep that within its slot
+      const maxWidth = (step * (1 - params.spacing)) / Math.sin(angle);
+      const size = Math.min(randomSize(params, r), maxWidth / getAspect(aspects, mediaIndex));
 
       planes.push({
-        id: `${cx}-${cy}-${cz}-${i}`,
-        position: new THREE.Vector3(
-          cx * CHUNK_SIZE + pad + r(0) * usable,
-          cy * CHUNK_SIZE + pad + r(1) * usable,
-          cz * CHUNK_SIZE + r(2) * CHUNK_SIZE * params.depthSpread,
-        ),
+        id: `${cx}-${cy}-${cz}-${side < 0 ? "l" : "r"}${i}`,
+        position: new THREE.Vector3(x, (r(1) - 0.5) * size * 0.25, cz * CHUNK_SIZE + (i + 0.5) * step),
         scale: new THREE.Vector3(size, size, 1),
-        mediaIndex: Math.floor(r(5) * 1_000_000),
+        rotation: new THREE.Euler(0, -side * angle, 0),
+        mediaIndex,
       });
     }
   }
@@ -99,20 +198,289 @@ export const generateChunkPlanes = (cx: number, cy: number, cz: number, params:
   return planes;
 };
 
-export const generateChunkPlanesCached = (cx: number, cy: number, cz: number, params: LayoutParams): PlaneData[] => {
-  const key = `${cx},${cy},${cz}`;
+/** A flat wall at z = 0: each chunk packs its items masonry-style, keeping every aspect ratio. */
+const wallPlanes = ({ cx, cy, cz, params, aspects }: ChunkLayout, seed: number): PlaneData[] => {
+  const planes: PlaneData[] = [];
+  if (cz !== 0 || !aspects.length) return planes;
+
+  const pad = params.spacing * CHUNK_SIZE * 0.5;
+  const usable = Math.max(1, CHUNK_SIZE - pad * 2);
+  const cols = Math.max(1, Math.min(params.wallColumns, params.itemsPerChunk));
+  const gap = Math.min(2, usable / cols / 10);
+  const colWidth = usable / cols - gap;
+  const colHeights = new Array<number>(cols).fill(0);
+  const placed: { col: number; y: number; height: number; mediaIndex: number }[] = [];
+
+  // Shortest column first, like a masonry grid
+  for (let i = 0; i < params.itemsPerChunk; i++) {
+    const mediaIndex = pickMediaIndex(cx, cy, cz, i, seededRandom(seed + i * 1000 + 5), params, aspects.length);
+    const height = colWidth / aspects[mediaIndex % aspects.length];
+    const col = colHeights.indexOf(Math.min(...colHeights));
+    placed.push({ col, y: colHeights[col], height, mediaIndex });
+    colHeights[col] += height + gap;
+  }
+
+  // Shrink the whole chunk to fit if the tallest column overflows, then centre it
+  const fit = Math.min(1, usable / Math.max(...colHeights));
+  const offsetX = (usable - (colWidth + gap) * cols * fit) / 2;
+  const offsetY = (usable - Math.max(...colHeights) * fit) / 2;
+
+  placed.forEach(({ col, y, height, mediaIndex }, i) => {
+    planes.push({
+      id: `${cx}-${cy}-${cz}-${i}`,
+      position: new THREE.Vector3(
+        cx * CHUNK_SIZE + pad + offsetX + (col * (colWidth + gap) + colWidth / 2) * fit,
+        cy * CHUNK_SIZE + pad + offsetY + (y + height / 2) * fit,
+        0
+      ),
+      scale: new THREE.Vector3(height * fit, height * fit, 1),
+      mediaIndex,
+    });
+  });
+
+  return planes;
+};
+
+/** A helix around the Z axis, one item every CHUNK_SIZE / itemsPerChunk along Z. */
+const spiralPlanes = (chunk: ChunkLayout): PlaneData[] => {
+  const { cx, cy, cz, params, aspects } = chunk;
+  const planes: PlaneData[] = [];
+  const step = CHUNK_SIZE / params.itemsPerChunk;
+  const first = Math.ceil((cz * CHUNK_SIZE) / step);
+  const last = Math.ceil(((cz + 1) * CHUNK_SIZE) / step);
+
+  for (let j = first; j < last; j++) {
+    const z = j * step;
+    const theta = (z / params.spiralPitch) * Math.PI * 2;
+    const position = new THREE.Vector3(Math.cos(theta) * params.spiralRadius, Math.sin(theta) * params.spiralRadius, z);
+    if (!inChunk(chunk, position)) continue;
+
+    const r = (n: number) => seededRandom(j * 1000 + n);
+    const size = randomSize(params, r);
+    planes.push({
+      id: `${cx}-${cy}-${cz}-s${j}`,
+      position,
+      scale: new THREE.Vector3(size, size, 1),
+      mediaIndex: pickSequenceMediaIndex(j, r(5), params, aspects.length),
+    });
+  }
+
+  return planes;
+};
+
+const _inward = new THREE.Vector3();
+const _facing = new THREE.Quaternion();
+const FORWARD = new THREE.Vector3(0, 0, 1);
+
+// Fibonacci point indices by chunk, for the last shell generated; see `getSphereBuckets`
+let sphereBuckets: { radius: number; total: number; buckets: Map<string, number[]> } | null = null;
+
+const getSpherePoint = (j: number, total: number, radius: number): THREE.Vector3 => {
+  const y = 1 - (2 * (j + 0.5)) / total;
+  const ring = Math.sqrt(1 - y * y);
+  const theta = j * GOLDEN_ANGLE;
+  return new THREE.Vector3(Math.cos(theta) * ring, y, Math.sin(theta) * ring).multiplyScalar(radius);
+};
+
+/** Which of a shell's `total` points land in each chunk, computed once per radius and density. */
+const getSphereBuckets = (radius: number, total: number): Map<string, number[]> => {
+  if (sphereBuckets?.radius === radius && sphereBuckets.total === total) return sphereBuckets.buckets;
+
+  const buckets = new Map<string, number[]>();
+  for (let j = 0; j < total; j++) {
+    const p = getSpherePoint(j, total, radius);
+    const key = `${Math.floor(p.x / CHUNK_SIZE)},${Math.floor(p.y / CHUNK_SIZE)},${Math.floor(p.z / CHUNK_SIZE)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(j);
+    else buckets.set(key, [j]);
+  }
+  sphereBuckets = { radius, total, buckets };
+  return buckets;
+};
+
+/** A Fibonacci-spiral shell around the origin, each item facing the centre. */
+const spherePlanes = (chunk: ChunkLayout): PlaneData[] => {
+  const { cx, cy, cz, params, aspects } = chunk;
+  const planes: PlaneData[] = [];
+  const radius = params.sphereRadius;
+
+  // Same density per unit area as a flat chunk face
+  const total = Math.max(8, Math.round((params.itemsPerChunk * 4 * Math.PI * radius * radius) / (CHUNK_SIZE * CHUNK_SIZE)));
+  // Fibonacci points are roughly this far apart; no item may be wider or taller than that
+  const pointSpacing = radius * Math.sqrt((4 * Math.PI) / total) * (1 - params.spacing);
+
+  for (const j of getSphereBuckets(radius, total).get(`${cx},${cy},${cz}`) ?? []) {
+    const position = getSpherePoint(j, total, radius);
+    const r = (n: number) => seededRandom(j * 1000 + n);
+    const mediaIndex = pickSequenceMediaIndex(j, r(5), params, aspects.length);
+    const aspect = getAspect(aspects, mediaIndex);
+    const size = Math.min(randomSize(params, r), pointSpacing / Math.max(aspect, 1));
+    _facing.setFromUnitVectors(FORWARD, _inward.copy(position).negate().normalize());
+    planes.push({
+      id: `${cx}-${cy}-${cz}-o${j}`,
+      position,
+      scale: new THREE.Vector3(size, size, 1),
+      rotation: new THREE.Euler().setFromQuaternion(_facing),
+      mediaIndex,
+    });
+  }
+
+  return planes;
+};
+
+/** Deterministic planes for one chunk. `aspects` holds width / height for every media item, in order. */
+export const generateChunkPlanes = (cx: number, cy: number, cz: number, params: LayoutParams, aspects: number[]): PlaneData[] => {
+  const chunk: ChunkLayout = { cx, cy, cz, params, aspects };
+  const seed = hashString(`${cx},${cy},${cz}`);
+
+  switch (params.mode) {
+    case "corridor":
+      return corridorPlanes(chunk, seed);
+    case "wall":
+      return wallPlanes(chunk, seed);
+    case "spiral":
+      return spiralPlanes(chunk);
+    case "sphere":
+      return spherePlanes(chunk);
+    default:
+      return scatterPlanes(chunk, seed);
+  }
+};
+
+export const generateChunkPlanesCached = (
+  cx: number,
+  cy: number,
+  cz: number,
+  params: LayoutParams,
+  aspects: number[]
+): PlaneData[] => {
+  const key = `${cx},${cy},${cz}:${aspects.length}`;
   const cached = planeCache.get(key);
   if (cached) {
     touchPlaneCache(key);
     return cached;
   }
 
-  const planes = generateChunkPlanes(cx, cy, cz, params);
+  const planes = generateChunkPlanes(cx, cy, cz, params, aspects);
   planeCache.set(key, planes);
   evictPlaneCache();
   return planes;
 };
 
+// Frames of travel at the current velocity to load ahead of the view
+const PREFETCH_FRAMES = 45;
+
+const _frustum = new THREE.Frustum();
+const _aheadFrustum = new THREE.Frustum();
+const _viewProjection = new THREE.Matrix4();
+const _ahead = new THREE.Matrix4();
+const _chunkBox = new THREE.Box3();
+
+/** Whether any of the box lies within fog distance of `camZ`; the camera always looks down -Z. */
+const withinFog = (box: THREE.Box3, camZ: number) => box.min.z <= camZ && box.max.z >= camZ - DEPTH_FADE_END;
+
+/**
+ * Chunks within `renderDistance` (plus the fade margin) worth mounting, nearest first: those in view and inside the fog,
+ * then those the camera will see after `PREFETCH_FRAMES` at `velocity`. The camera's own chunk is always kept.
+ * Chunk bounds are padded by the largest plane size so planes overhanging their chunk still count.
+ */
+export const selectChunks = (
+  camera: THREE.Camera,
+  velocity: { x: number; y: number; z: number },
+  params: LayoutParams,
+  renderDistance: number
+): ChunkData[] => {
+  const cx = Math.floor(camera.position.x / CHUNK_SIZE);
+  const cy = Math.floor(camera.position.y / CHUNK_SIZE);
+  const cz = Math.floor(camera.position.z / CHUNK_SIZE);
+
+  _viewProjection.multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse);
+  _frustum.setFromProjectionMatrix(_viewProjection);
+  _ahead.makeTranslation(-velocity.x * PREFETCH_FRAMES, -velocity.y * PREFETCH_FRAMES, -velocity.z * PREFETCH_FRAMES);
+  _aheadFrustum.setFromProjectionMatrix(_ahead.premultiply(_viewProjection));
+  const aheadZ = camera.position.z + velocity.z * PREFETCH_FRAMES;
+
+  const selected: { chunk: ChunkData; prefetch: boolean; distance: number }[] = [];
+  for (const o of CHUNK_OFFSETS) {
+    if (o.dist > renderDistance + CHUNK_FADE_MARGIN) continue;
+
+    const x = cx + o.dx;
+    const y = cy + o.dy;
+    const z = cz + o.dz;
+    _chunkBox.min.set(x * CHUNK_SIZE, y * CHUNK_SIZE, z * CHUNK_SIZE).subScalar(params.sizeMax);
+    _chunkBox.max.set((x + 1) * CHUNK_SIZE, (y + 1) * CHUNK_SIZE, (z + 1) * CHUNK_SIZE).addScalar(params.sizeMax);
+
+    const inView = o.dist === 0 || (withinFog(_chunkBox, camera.position.z) && _frustum.intersectsBox(_chunkBox));
+    if (!inView && !(withinFog(_chunkBox, aheadZ) && _aheadFrustum.intersectsBox(_chunkBox))) continue;
+
+    selected.push({
+      chunk: { key: `${x},${y},${z}`, cx: x, cy: y, cz: z },
+      prefetch: !inView,
+      distance: _chunkBox.distanceToPoint(camera.position),
+    });
+  }
+
+  selected.sort((a, b) => Number(a.prefetch) - Number(b.prefetch) || a.distance - b.distance);
+  return selected.map((s) => s.chunk);
+};
+
 export const shouldThrottleUpdate = (lastUpdateTime: number, throttleMs: number, currentTime: number): boolean => {
   return currentTime - lastUpdateTime >= throttleMs;
 };
+
+/** Placed size of a plane once the media's aspect ratio is applied, matching `createBatchPlane`. */
+export const getPlaneDisplaySize = (plane: PlaneData, item: MediaItem): { width: number; height: number } => {
+  const aspect = item.width && item.height ? item.width / item.height : plane.scale.x / plane.scale.y;
+  return { width: plane.scale.y * aspect, height: plane.scale.y };
+};
+
+/**
+ * Find the placed plane closest to `from` that shows `url`, searching chunk shells outward.
+ * Layouts are deterministic, so this works for chunks that are not mounted yet.
+ */
+export const findNearestPlane = (
+  url: string,
+  media: MediaItem[],
+  params: LayoutParams,
+  from: CameraPosition,
+  maxRadius = 3
+): (CameraTarget & { planeId: string; media: MediaItem }) | null => {
+  if (!media.length) return null;
+
+  const ccx = Math.floor(from.x / CHUNK_SIZE);
+  const ccy = Math.floor(from.y / CHUNK_SIZE);
+  const ccz = Math.floor(from.z / CHUNK_SIZE);
+  const aspects = getMediaAspects(media);
+  let best = null as { plane: PlaneData; item: MediaItem; distSq: number } | null;
+
+  for (let r = 0; r <= maxRadius; r++) {
+    for (let dx = -r; dx <= r; dx++) {
+      for (let dy = -r; dy <= r; dy++) {
+        for (let dz = -r; dz <= r; dz++) {
+          // Only visit the shell at Chebyshev distance r
+          if (Math.max(Math.abs(dx), Math.abs(dy), Math.abs(dz)) !== r) continue;
+
+          for (const plane of generateChunkPlanesCached(ccx + dx, ccy + dy, ccz + dz, params, aspects)) {
+            const item = media[plane.mediaIndex % media.length];
+            if (item?.url !== url) continue;
+
+            const p = plane.position;
+            const distSq = (p.x - from.x) ** 2 + (p.y - from.y) ** 2 + (p.z - from.z) ** 2;
+            if (!best || distSq < best.distSq) best = { plane, item, distSq };
+          }
+        }
+      }
+    }
+
+    // Shell r + 1 is at least r chunks away, so it can't beat a match this close
+    if (best && Math.sqrt(best.distSq) <= r * CHUNK_SIZE) break;
+  }
+
+  if (!best) return null;
+  return {
+    planeId: best.plane.id,
+    media: best.item,
+    position: best.plane.position,
+    ...getPlaneDisplaySize(best.plane, best.item),
+  };
+};
@@ -1,14 +1,49 @@
 import * as React from "react";
-import type { LayoutMode, LayoutParams } from "~/src/infinite-canvas/types";
+import { getEffectiveUniqueRadius } from "~/src/infinite-canvas/media-distribution";
+import type {
+  BackgroundStyle,
+  FocusEffectType,
+  KeyBindings,
+  LayoutMode,
+  LayoutParams,
+  MediaDistribution,
+  QualityMode,
+} from "~/src/infinite-canvas/types";
+import { KeyBindingsEditor } from "./key-bindings";
 import styles from "./style.module.css";
 
+// Modes that fill every chunk independently; the others follow a path, where uniqueness comes for free
+const CHUNK_MODES: LayoutMode[] = ["random", "grid", "wall"];
+
 type LayoutPaneProps = {
   params: LayoutParams;
   onChange: (params: LayoutParams) => void;
+  focusEffectType: FocusEffectType;
+  onFocusEffectChange: (type: FocusEffectType) => void;
+  backgroundStyle: BackgroundStyle;
+  onBackgroundStyleChange: (style: BackgroundStyle) => void;
+  quality: QualityMode;
+  onQualityChange: (quality: QualityMode) => void;
+  keyBindings: KeyBindings;
+  onKeyBindingsChange: (bindings: KeyBindings) => void;
+  mediaCount: number;
 };
 
-export function LayoutPane({ params, onChange }: LayoutPaneProps) {
+export function LayoutPane({
+  params,
+  onChange,
+  focusEffectType,
+  onFocusEffectChange,
+  backgroundStyle,
+  onBackgroundStyleChange,
+  quality,
+  onQualityChange,
+  keyBindings,
+  onKeyBindingsChange,
+  mediaCount,
+}: LayoutPaneProps) {
   const [open, setOpen] = React.useState(false);
+  const effectiveRadius = getEffectiveUniqueRadius(params, mediaCount);
 
   const update = <K extends keyof LayoutParams>(key: K, value: LayoutParams[K]) => {
     onChange({ ...params, [key]: value });
@@ -27,9 +62,101 @@ export function LayoutPane({ params, onChange }: LayoutPaneProps) {
             <select className={styles.select} value={params.mode} onChange={(e) => update("mode", e.target.value as LayoutMode)}>
               <option value="random">Random</option>
               <option value="grid">Grid</option>
+              <option value="corridor">Corridor</option>
+              <option value="wall">Wall</option>
+              <option value="spiral">Spiral</option>
+              <option value="sphere">Sphere</option>
             </select>
           </label>
 
+          {params.mode === "corridor" && (
+            <>
+              <label className={styles.label}>
+                Corridor width ({params.corridorWidth})
+                <input
+                  className={styles.slider}
+                  type="range"
+                  min={40}
+                  max={300}
+                  step={5}
+                  value={params.corridorWidth}
+                  onChange={(e) => update("corridorWidth", Number(e.target.value))}
+                />
+              </label>
+              <label className={styles.label}>
+                Wall angle ({params.corridorAngle}°)
+                <input
+                  className={styles.slider}
+                  type="range"
+                  min={30}
+                  max={80}
+                  step={1}
+                  value={params.corridorAngle}
+                  onChange={(e) => update("corridorAngle", Number(e.target.value))}
+                />
+              </label>
+            </>
+          )}
+
+          {params.mode === "wall" && (
+            <label className={styles.label}>
+              Columns per chunk ({params.wallColumns})
+              <input
+                className={styles.slider}
+                type="range"
+                min={1}
+                max={6}
+                step={1}
+                value={params.wallColumns}
+                onChange={(e) => update("wallColumns", Number(e.target.value))}
+              />
+            </label>
+          )}
+
+          {params.mode === "spiral" && (
+            <>
+              <label className={styles.label}>
+                Spiral radius ({params.spiralRadius})
+                <input
+                  className={styles.slider}
+                  type="range"
+                  min={20}
+                  max={150}
+                  step={5}
+                  value={params.spiralRadius}
+                  onChange={(e) => update("spiralRadius", Number(e.target.value))}
+                />
+              </label>
+              <label className={styles.label}>
+                Distance per turn ({params.spiralPitch})
+                <input
+                  className={styles.slider}
+                  type="range"
+                  min={60}
+                  max={600}
+                  step={10}
+                  value={params.spiralPitch}
+                  onChange={(e) => update("spiralPitch", Number(e.target.value))}
+                />
+              </label>
+            </>
+          )}
+
+          {params.mode === "sphere" && (
+            <label className={styles.label}>
+              Sphere radius ({params.sphereRadius})
+              <input
+                className={styles.slider}
+                type="range"
+                min={60}
+                max={300}
+                step={10}
+                value={params.sphereRadius}
+                onChange={(e) => update("sphereRadius", Number(e.target.value))}
+              />
+            </label>
+          )}
+
           <label className={styles.label}>
             Items per chunk ({params.itemsPerChunk})
             <input
@@ -82,18 +209,87 @@ export function LayoutPane({ params, onChange }: LayoutPaneProps) {
             />
           </label>
 
+          {(params.mode === "random" || params.mode === "grid") && (
+            <label className={styles.label}>
+              Depth spread ({(params.depthSpread * 100).toFixed(0)}%)
+              <input
+                className={styles.slider}
+                type="range"
+                min={0}
+                max={1}
+                step={0.01}
+                value={params.depthSpread}
+                onChange={(e) => update("depthSpread", Number(e.target.value))}
+              />
+            </label>
+          )}
+
           <label className={styles.label}>
-            Depth spread ({(params.depthSpread * 100).toFixed(0)}%)
-            <input
-              className={styles.slider}
-              type="range"
-              min={0}
-              max={1}
-              step={0.01}
-              value={params.depthSpread}
-              onChange={(e) => update("depthSpread", Number(e.target.value))}
-            />
+            Artwork distribution
+            <select
+              className={styles.select}
+              value={params.distribution}
+              onChange={(e) => update("distribution", e.target.value as MediaDistribution)}
+            >
+              <option value="balanced">Balanced</option>
+              <option value="random">Random</option>
+            </select>
           </label>
+
+          {params.distribution === "balanced" && CHUNK_MODES.includes(params.mode) && (
+            <label className={styles.label}>
+              No repeats within ({params.uniqueRadius} chunks
+              {effectiveRadius < params.uniqueRadius && `, ${Math.max(effectiveRadius, 0)} for this collection`})
+              <input
+                className={styles.slider}
+                type="range"
+                min={0}
+                max={3}
+                step={1}
+                value={params.uniqueRadius}
+                onChange={(e) => update("uniqueRadius", Number(e.target.value))}
+              />
+            </label>
+          )}
+
+          <label className={styles.label}>
+            Focus effect
+            <select
+              className={styles.select}
+              value={focusEffectType}
+              onChange={(e) => onFocusEffectChange(e.target.value as FocusEffectType)}
+            >
+              <option value="fire">Fire</option>
+              <option value="cloud">Clouds</option>
+              <option value="flowers">Flowers</option>
+            </select>
+          </label>
+
+          <label className={styles.label}>
+            Background
+            <select
+              className={styles.select}
+              value={backgroundStyle}
+              onChange={(e) => onBackgroundStyleChange(e.target.value as BackgroundStyle)}
+            >
+              <option value="solid">Solid</option>
+              <option value="linear">Gradient</option>
+              <option value="radial">Radial gradient</option>
+              <option value="noise">Drifting noise</option>
+            </select>
+          </label>
+
+          <label className={styles.label}>
+            Quality
+            <select className={styles.select} value={quality} onChange={(e) => onQualityChange(e.target.value as QualityMode)}>
+              <option value="auto">Auto</option>
+              <option value="high">High</option>
+              <option value="medium">Medium</option>
+              <option value="low">Low</option>
+            </select>
+          </label>
+
+          <KeyBindingsEditor bindings={keyBindings} onChange={onKeyBindingsChange} />
         </div>
       )}
     </div>
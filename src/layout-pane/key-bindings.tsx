@@ -0,0 +1,44 @@
+import * as React from "react";
+import { DEFAULT_KEY_BINDINGS, INPUT_ACTIONS, bindKey, formatKeyCode } from "~/src/infinite-canvas/input-bindings";
+import type { InputAction, KeyBindings } from "~/src/infinite-canvas/types";
+import styles from "./style.module.css";
+
+/** One button per camera movement; click it, then press the new key (Escape cancels). */
+export function KeyBindingsEditor({ bindings, onChange }: { bindings: KeyBindings; onChange: (bindings: KeyBindings) => void }) {
+  const [listening, setListening] = React.useState<InputAction | null>(null);
+
+  const onKeyDown = (e: React.KeyboardEvent, action: InputAction) => {
+    if (listening !== action || e.key === "Tab") return;
+
+    // Handled here, so the canvas doesn't move on the key being bound
+    e.preventDefault();
+    setListening(null);
+    if (e.key !== "Escape") onChange(bindKey(bindings, action, e.code));
+  };
+
+  return (
+    <div className={styles.label}>
+      Keys
+      <div className={styles.bindings}>
+        {INPUT_ACTIONS.map(({ action, label }) => (
+          <React.Fragment key={action}>
+            <span>{label}</span>
+            <button
+              className={styles.bindingButton}
+              type="button"
+              aria-label={`${label} key`}
+              onClick={() => setListening(action)}
+              onBlur={() => setListening(null)}
+              onKeyDown={(e) => onKeyDown(e, action)}
+            >
+              {listening === action ? "Press a key…" : bindings[action].map(formatKeyCode).join(" / ") || "Unbound"}
+            </button>
+          </React.Fragment>
+        ))}
+      </div>
+      <button className={styles.bindingButton} type="button" onClick={() => onChange(DEFAULT_KEY_BINDINGS)}>
+        Reset keys
+      </button>
+    </div>
+  );
+}
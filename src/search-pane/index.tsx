@@ -0,0 +1,173 @@
+import * as React from "react";
+import { COLOR_CATEGORIES } from "~/src/infinite-canvas/color-category";
+import { ASPECT_FILTERS, isEmptyQuery } from "~/src/infinite-canvas/media-query";
+import type { AspectFilter, MediaQuery } from "~/src/infinite-canvas/media-query";
+import type { MediaItem } from "~/src/infinite-canvas/types";
+import styles from "./style.module.css";
+
+const MAX_LISTED_RESULTS = 8;
+
+const COLOR_LABELS: Record<string, string> = { pinkRed: "red / pink", greyWhite: "grey / white" };
+
+const parseYearInput = (value: string): number | undefined => {
+  const year = Number.parseInt(value, 10);
+  return Number.isFinite(year) ? year : undefined;
+};
+
+export function SearchPane({
+  query,
+  onChange,
+  results,
+  total,
+  onJump,
+  onLoadMore,
+}: {
+  query: MediaQuery;
+  onChange: (query: MediaQuery) => void;
+  results: MediaItem[];
+  total: number;
+  onJump: (url: string) => boolean;
+  /** Set while the collection has pages not loaded yet; search only covers what's loaded. */
+  onLoadMore?: () => void;
+}) {
+  const [open, setOpen] = React.useState(false);
+  const [status, setStatus] = React.useState("");
+  const filtered = !isEmptyQuery(query);
+
+  const update = (patch: Partial<MediaQuery>) => {
+    setStatus("");
+    onChange({ ...query, ...patch });
+  };
+
+  const jump = (item: MediaItem) => {
+    setStatus(onJump(item.url) ? "" : `${item.title ?? item.url} is not close enough to fly to`);
+  };
+
+  return (
+    <search className={styles.pane}>
+      <div className={styles.bar}>
+        <input
+          className={styles.input}
+          type="search"
+          value={query.text ?? ""}
+          placeholder="Search title or artist"
+          aria-label="Search title or artist"
+          onChange={(e) => update({ text: e.target.value })}
+        />
+        <button
+          className={styles.toggle}
+          onClick={() => setOpen((v) => !v)}
+          type="button"
+          aria-label="Toggle search filters"
+          aria-expanded={open}
+        >
+          {open ? "✕" : "⚲"}
+        </button>
+      </div>
+
+      {(open || filtered) && (
+        <div className={styles.panel}>
+          {open && (
+            <div className={styles.filters}>
+              <div className={styles.row}>
+                <input
+                  className={styles.input}
+                  type="text"
+                  value={query.artist ?? ""}
+                  placeholder="Artist"
+                  aria-label="Artist"
+                  onChange={(e) => update({ artist: e.target.value })}
+                />
+                <input
+                  className={styles.input}
+                  type="text"
+                  value={query.title ?? ""}
+                  placeholder="Title"
+                  aria-label="Title"
+                  onChange={(e) => update({ title: e.target.value })}
+                />
+              </div>
+              <div className={styles.row}>
+                <input
+                  className={styles.input}
+                  type="number"
+                  value={query.yearMin ?? ""}
+                  placeholder="From year"
+                  aria-label="From year"
+                  onChange={(e) => update({ yearMin: parseYearInput(e.target.value) })}
+                />
+                <input
+                  className={styles.input}
+                  type="number"
+                  value={query.yearMax ?? ""}
+                  placeholder="To year"
+                  aria-label="To year"
+                  onChange={(e) => update({ yearMax: parseYearInput(e.target.value) })}
+                />
+              </div>
+              <div className={styles.row}>
+                <select
+                  className={styles.select}
+                  value={query.aspect ?? ""}
+                  aria-label="Aspect ratio"
+                  onChange={(e) => update({ aspect: (e.target.value || undefined) as AspectFilter | undefined })}
+                >
+                  <option value="">Any shape</option>
+                  {ASPECT_FILTERS.map((aspect) => (
+                    <option key={aspect} value={aspect}>
+                      {aspect}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className={styles.select}
+                  value={query.color ?? ""}
+                  aria-label="Dominant color"
+                  onChange={(e) => update({ color: e.target.value || undefined })}
+                >
+                  <option value="">Any color</option>
+                  {COLOR_CATEGORIES.map((color) => (
+                    <option key={color} value={color}>
+                      {COLOR_LABELS[color] ?? color}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          )}
+
+          {filtered && (
+            <>
+              <div className={styles.summary} aria-live="polite">
+                <span>
+                  {results.length} of {total} artworks
+                </span>
+                {onLoadMore && (
+                  <button className={styles.clear} type="button" onClick={onLoadMore}>
+                    Load more
+                  </button>
+                )}
+                <button className={styles.clear} type="button" onClick={() => onChange({})}>
+                  Clear
+                </button>
+              </div>
+              <ul className={styles.results}>
+                {results.slice(0, MAX_LISTED_RESULTS).map((item) => (
+                  <li key={item.url}>
+                    <button className={styles.result} type="button" onClick={() => jump(item)}>
+                      <span className={styles.resultTitle}>{item.title ?? item.url.split("/").pop()}</span>
+                      {item.artist && <span className={styles.resultMeta}>{item.artist}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              {!results.length && <div className={styles.status}>No artworks match. Clear the search to see everything.</div>}
+            </>
+          )}
+
+          {status && <div className={styles.status}>{status}</div>}
+        </div>
+      )}
+    </search>
+  );
+}
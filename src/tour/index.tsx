@@ -0,0 +1,173 @@
+import * as React from "react";
+import type { CanvasController, MediaItem } from "~/src/infinite-canvas/types";
+import { createTour, DEFAULT_STOP_DURATION_MS, getStopCaption, TOUR_FLIGHT_DURATION_MS, validateTour } from "./tour";
+import type { Tour, TourResult } from "./tour";
+import styles from "./style.module.css";
+
+export function TourPlayer({
+  tour,
+  media,
+  controllerRef,
+  onClose,
+}: {
+  tour: Tour;
+  media: MediaItem[];
+  controllerRef: React.RefObject<CanvasController | null>;
+  onClose: () => void;
+}) {
+  const [index, setIndex] = React.useState(0);
+  const [playing, setPlaying] = React.useState(true);
+  const [missing, setMissing] = React.useState(false);
+
+  const stop = tour.stops[index];
+  const item = media.find((m) => m.url === stop?.url);
+  const isLast = index >= tour.stops.length - 1;
+
+  const close = React.useCallback(() => {
+    controllerRef.current?.restoreCamera();
+    onClose();
+  }, [controllerRef, onClose]);
+
+  // Fly to the current stop whenever it changes
+  React.useEffect(() => {
+    if (!stop) return;
+    const target = controllerRef.current?.flyToMedia(stop.url, { durationMs: TOUR_FLIGHT_DURATION_MS });
+    setMissing(!target);
+  }, [stop, controllerRef]);
+
+  // Advance after the flight plus the pause on this stop
+  React.useEffect(() => {
+    if (!playing || !stop) return;
+    if (isLast) {
+      setPlaying(false);
+      return;
+    }
+
+    const delay = missing ? 0 : TOUR_FLIGHT_DURATION_MS + (stop.durationMs ?? DEFAULT_STOP_DURATION_MS);
+    const id = setTimeout(() => setIndex((i) => i + 1), delay);
+    return () => clearTimeout(id);
+  }, [playing, stop, isLast, missing]);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") close();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [close]);
+
+  if (!stop) {
+    return null;
+  }
+
+  return (
+    <section className={styles.player} aria-label={`Tour: ${tour.title}`}>
+      <div className={styles.caption} aria-live="polite">
+        <span className={styles.progress}>
+          {tour.title} · {index + 1}/{tour.stops.length}
+        </span>
+        <span className={styles.text}>{missing ? "Artwork not found nearby" : getStopCaption(stop, item)}</span>
+      </div>
+      <div className={styles.controls}>
+        <button
+          className={styles.button}
+          type="button"
+          aria-label="Previous stop"
+          disabled={index === 0}
+          onClick={() => setIndex((i) => Math.max(0, i - 1))}
+        >
+          {"⏮"}
+        </button>
+        <button
+          className={styles.button}
+          type="button"
+          aria-label={playing ? "Pause tour" : "Play tour"}
+          onClick={() => {
+            if (!playing && isLast) setIndex(0);
+            setPlaying((p) => !p);
+          }}
+        >
+          {playing ? "⏸" : "▶"}
+        </button>
+        <button
+          className={styles.button}
+          type="button"
+          aria-label="Next stop"
+          disabled={isLast}
+          onClick={() => setIndex((i) => Math.min(tour.stops.length - 1, i + 1))}
+        >
+          {"⏭"}
+        </button>
+        <button className={styles.button} type="button" aria-label="End tour" onClick={close}>
+          {"✕"}
+        </button>
+      </div>
+    </section>
+  );
+}
+
+const COLLECTION_TOUR_LIMIT = 12;
+
+export function TourLauncher({ media, onStart }: { media: MediaItem[]; onStart: (tour: Tour) => void }) {
+  const [open, setOpen] = React.useState(false);
+  const [error, setError] = React.useState("");
+  const fileRef = React.useRef<HTMLInputElement>(null);
+
+  const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let result: TourResult;
+    try {
+      result = validateTour(JSON.parse(await file.text()));
+    } catch {
+      result = { ok: false, error: "File is not valid JSON" };
+    }
+
+    if (!result.ok) {
+      setError(result.error);
+      return;
+    }
+    setError("");
+    setOpen(false);
+    onStart(result.tour);
+  };
+
+  return (
+    <div className={styles.launcher}>
+      <button className={styles.toggle} onClick={() => setOpen((v) => !v)} type="button" aria-label="Toggle tour menu">
+        {open ? "✕" : "▶"}
+      </button>
+
+      {open && (
+        <div className={styles.menu}>
+          <button
+            className={styles.menuButton}
+            type="button"
+            disabled={!media.length}
+            onClick={() => {
+              setOpen(false);
+              onStart(createTour("Collection highlights", media.slice(0, COLLECTION_TOUR_LIMIT)));
+            }}
+          >
+            Tour the collection
+          </button>
+          <button className={styles.menuButton} type="button" onClick={() => fileRef.current?.click()}>
+            Load tour file
+          </button>
+          <input
+            ref={fileRef}
+            className={styles.fileInput}
+            type="file"
+            accept="application/json,.json"
+            aria-label="Load tour file"
+            onChange={loadFile}
+          />
+          {error && <div className={styles.error}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import type { MediaItem } from "~/src/infinite-canvas/types";
+
+export const TOUR_VERSION = 1;
+
+export const DEFAULT_STOP_DURATION_MS = 6000;
+export const TOUR_FLIGHT_DURATION_MS = 2200;
+
+export type TourStop = {
+  /** Media url of the artwork to visit. */
+  url: string;
+  /** Shown while pausing on the artwork; defaults to its title, artist and year. */
+  caption?: string;
+  durationMs?: number;
+};
+
+export type Tour = {
+  version: number;
+  title: string;
+  stops: TourStop[];
+};
+
+export type TourResult = { ok: true; tour: Tour } | { ok: false; error: string };
+
+const isRecord = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
+
+export const validateTour = (raw: unknown): TourResult => {
+  if (!isRecord(raw)) return { ok: false, error: "Tour must be a JSON object" };
+  if (typeof raw.version !== "number" || raw.version < 1 || raw.version > TOUR_VERSION) {
+    return { ok: false, error: `Unsupported tour version: ${String(raw.version)}` };
+  }
+  if (!Array.isArray(raw.stops)) return { ok: false, error: "Tour has no stops" };
+
+  const stops = raw.stops.flatMap((stop): TourStop[] => {
+    if (!isRecord(stop) || typeof stop.url !== "string" || !stop.url) return [];
+    return [
+      {
+        url: stop.url,
+        caption: typeof stop.caption === "string" ? stop.caption : undefined,
+        durationMs: typeof stop.durationMs === "number" && stop.durationMs > 0 ? Math.min(stop.durationMs, 60_000) : undefined,
+      },
+    ];
+  });
+  if (!stops.length) return { ok: false, error: "Tour has no valid stops" };
+
+  return {
+    ok: true,
+    tour: { version: TOUR_VERSION, title: typeof raw.title === "string" ? raw.title : "Tour", stops },
+  };
+};
+
+export const createTour = (title: string, items: MediaItem[], durationMs?: number): Tour => ({
+  version: TOUR_VERSION,
+  title,
+  stops: items.map((item) => ({ url: item.url, durationMs })),
+});
+
+export const getStopCaption = (stop: TourStop, item: MediaItem | undefined): string => {
+  if (stop.caption) return stop.caption;
+  if (!item) return "";
+  return [item.title ?? "Untitled", item.artist, item.year].filter(Boolean).join(" — ");
+};
@@ -0,0 +1,88 @@
+import type { MediaMeta, PaletteSwatch } from "~/src/infinite-canvas/types";
+
+const DB_NAME = "immersive-gallery";
+const DB_VERSION = 1;
+const STORE = "uploads";
+
+export type StoredUpload = {
+  id: string;
+  name: string;
+  type: string;
+  blob: Blob;
+  thumbnail: Blob;
+  width: number;
+  height: number;
+  createdAt: number;
+  /** Missing on uploads stored before colors were sampled at upload time. */
+  dominantColor?: string;
+  palette?: PaletteSwatch[];
+  /** From the file's EXIF / XMP metadata; missing on uploads stored before it was read. */
+  artist?: string;
+  year?: string;
+  meta?: MediaMeta;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        db.createObjectStore(STORE, { keyPath: "id" }).createIndex("createdAt", "createdAt");
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+/** Where a page of uploads ended; `createdAt` isn't unique, so the id breaks ties. */
+export type UploadPosition = { createdAt: number; id: string };
+
+/** Up to `limit` uploads, oldest first (then by id), that come after `after`, or from the start. */
+export const listUploads = async (limit: number, after?: UploadPosition): Promise<StoredUpload[]> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const uploads: StoredUpload[] = [];
+    const index = db.transaction(STORE, "readonly").objectStore(STORE).index("createdAt");
+    const request = index.openCursor(after ? IDBKeyRange.lowerBound(after.createdAt) : null);
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || uploads.length >= limit) return resolve(uploads);
+      // Index entries with equal keys come in primary key order: skip up to and including `after`
+      if (after && cursor.key === after.createdAt && String(cursor.primaryKey) <= after.id) return cursor.continue();
+
+      uploads.push(cursor.value);
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const putUpload = (upload: StoredUpload): Promise<IDBValidKey> => withStore("readwrite", (store) => store.put(upload));
+
+export const renameUpload = async (id: string, name: string): Promise<void> => {
+  const existing = await withStore<StoredUpload | undefined>("readonly", (store) => store.get(id));
+  if (!existing) return;
+  await putUpload({ ...existing, name });
+};
+
+export const deleteUpload = (id: string): Promise<undefined> => withStore("readwrite", (store) => store.delete(id));
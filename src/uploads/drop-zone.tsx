@@ -0,0 +1,96 @@
+import * as React from "react";
+import styles from "./style.module.css";
+
+const isDirectory = (entry: FileSystemEntry): entry is FileSystemDirectoryEntry => entry.isDirectory;
+const isFile = (entry: FileSystemEntry): entry is FileSystemFileEntry => entry.isFile;
+
+/** Files under a dropped entry, recursing into folders; hidden files (.DS_Store and the like) are skipped. */
+const readEntry = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.name.startsWith(".")) return [];
+  if (isFile(entry)) return [await new Promise<File>((resolve, reject) => entry.file(resolve, reject))];
+  if (!isDirectory(entry)) return [];
+
+  const reader = entry.createReader();
+  const files: File[] = [];
+  // Entries come in batches until an empty one
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (!batch.length) break;
+    for (const child of batch) files.push(...(await readEntry(child)));
+  }
+  return files;
+};
+
+const getDroppedFiles = async (data: DataTransfer): Promise<File[]> => {
+  // Taken synchronously: the drop's items are emptied once the event handler returns
+  const entries = Array.from(data.items, (item) => item.webkitGetAsEntry?.() ?? null);
+  if (!entries.some(Boolean)) return Array.from(data.files);
+
+  const nested = await Promise.all(entries.map((entry) => (entry ? readEntry(entry) : [])));
+  return nested.flat();
+};
+
+const hasFiles = (e: DragEvent) => e.dataTransfer?.types.includes("Files") ?? false;
+
+/** Accepts files and folders dropped anywhere on the page, with an overlay while dragging. */
+export function UploadDropZone({ onFiles }: { onFiles: (files: File[]) => void }) {
+  const [dragging, setDragging] = React.useState(false);
+
+  React.useEffect(() => {
+    // dragenter / dragleave fire for every element crossed, so count them
+    let depth = 0;
+
+    const onDragEnter = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth++;
+      setDragging(true);
+    };
+
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return;
+      e.preventDefault();
+      e.dataTransfer.dropEffect = "copy";
+    };
+
+    const onDragLeave = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      depth = Math.max(0, depth - 1);
+      if (!depth) setDragging(false);
+    };
+
+    const onDrop = (e: DragEvent) => {
+      if (!hasFiles(e) || !e.dataTransfer) return;
+      e.preventDefault();
+      depth = 0;
+      setDragging(false);
+
+      getDroppedFiles(e.dataTransfer)
+        .then((files) => {
+          if (files.length) onFiles(files);
+        })
+        .catch((err) => console.error("Failed to read dropped files:", err));
+    };
+
+    window.addEventListener("dragenter", onDragEnter);
+    window.addEventListener("dragover", onDragOver);
+    window.addEventListener("dragleave", onDragLeave);
+    window.addEventListener("drop", onDrop);
+
+    return () => {
+      window.removeEventListener("dragenter", onDragEnter);
+      window.removeEventListener("dragover", onDragOver);
+      window.removeEventListener("dragleave", onDragLeave);
+      window.removeEventListener("drop", onDrop);
+    };
+  }, [onFiles]);
+
+  if (!dragging) {
+    return null;
+  }
+
+  return (
+    <div className={styles.dropOverlay} aria-hidden="true">
+      <span className={styles.dropMessage}>Drop images, videos or folders</span>
+    </div>
+  );
+}
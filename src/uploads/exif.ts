@@ -0,0 +1,207 @@
+/**
+ * Minimal EXIF reading for JPEG uploads: IFD0 plus the Exif and GPS sub-IFDs, with just the value
+ * types photo metadata uses.
+ */
+
+const SOI = 0xffd8;
+const APP1 = 0xe1;
+const SOS = 0xda;
+
+const TAGS = {
+  imageDescription: 0x010e,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  artist: 0x013b,
+  copyright: 0x8298,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  offsetTimeOriginal: 0x9011,
+  lensModel: 0xa434,
+};
+
+const GPS_TAGS = { latitudeRef: 1, latitude: 2, longitudeRef: 3, longitude: 4 };
+
+// Bytes per component of the types read here: BYTE, ASCII, SHORT, LONG, RATIONAL
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8 };
+
+type TiffView = { view: DataView; start: number; little: boolean };
+
+type ExifValue = string | number[];
+
+/** The fields of a photo's EXIF block that uploads keep. */
+export type ExifTags = {
+  description?: string;
+  artist?: string;
+  copyright?: string;
+  /** "Make Model", without the make repeated when the model already starts with it. */
+  camera?: string;
+  lens?: string;
+  /** ISO 8601, local time of the camera unless the photo recorded its offset. */
+  capturedAt?: string;
+  latitude?: number;
+  longitude?: number;
+};
+
+/** The TIFF block inside a JPEG's Exif APP1 segment, or null when there is none in `bytes`. */
+const findExif = (bytes: Uint8Array): TiffView | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 4 || view.getUint16(0) !== SOI) return null;
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    const length = view.getUint16(offset + 2);
+    // Image data follows; metadata segments always come before it
+    if (marker === SOS) return null;
+
+    // "Exif\0\0"; the header slice can end part way into a segment
+    const start = offset + 10;
+    if (start > bytes.length) return null;
+    if (marker === APP1 && view.getUint32(offset + 4) === 0x45786966 && view.getUint16(offset + 8) === 0) {
+      if (start + 8 > bytes.length) return null;
+      const order = view.getUint16(start);
+      if (order !== 0x4949 && order !== 0x4d4d) return null;
+      return { view, start, little: order === 0x4949 };
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+const readValue = ({ view, start, little }: TiffView, entry: number): ExifValue | null => {
+  const type = view.getUint16(entry + 2, little);
+  const count = view.getUint32(entry + 4, little);
+  const size = TYPE_SIZES[type];
+  if (!size) return null;
+
+  // Values that don't fit in the entry's 4 bytes live elsewhere, at an offset from the TIFF start
+  const offset = size * count > 4 ? start + view.getUint32(entry + 8, little) : entry + 8;
+  if (offset + size * count > view.byteLength) return null;
+
+  if (type === 2) {
+    const chars = new Uint8Array(view.buffer, view.byteOffset + offset, count);
+    return new TextDecoder().decode(chars).replace(/\0.*$/s, "").trim();
+  }
+
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * size;
+    if (type === 1) values.push(view.getUint8(at));
+    else if (type === 3) values.push(view.getUint16(at, little));
+    else if (type === 4) values.push(view.getUint32(at, little));
+    else values.push(view.getUint32(at, little) / (view.getUint32(at + 4, little) || 1));
+  }
+  return values;
+};
+
+/** Tags of the IFD at `offset` (from the TIFF start); empty when it lies outside `bytes`. */
+const readIfd = (tiff: TiffView, offset: number): Map<number, ExifValue> => {
+  const tags = new Map<number, ExifValue>();
+  const { view, start, little } = tiff;
+  const ifd = start + offset;
+  if (ifd + 2 > view.byteLength) return tags;
+
+  const count = view.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const value = readValue(tiff, entry);
+    if (value !== null) tags.set(view.getUint16(entry, little), value);
+  }
+  return tags;
+};
+
+const readIfd0 = (tiff: TiffView) => readIfd(tiff, tiff.view.getUint32(tiff.start + 4, tiff.little));
+
+const getString = (tags: Map<number, ExifValue>, tag: number): string | undefined => {
+  const value = tags.get(tag);
+  return typeof value === "string" && value ? value : undefined;
+};
+
+const getNumbers = (tags: Map<number, ExifValue>, tag: number): number[] | undefined => {
+  const value = tags.get(tag);
+  return Array.isArray(value) && value.length ? value : undefined;
+};
+
+/** "2023:07:14 18:03:22" plus an optional "+02:00" as ISO 8601. */
+const toIsoDate = (date: string, offset: string | undefined): string | undefined => {
+  const match = date.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/);
+  if (!match || match[1] === "0000") return undefined;
+  const [, y, mo, d, h, mi, sec] = match;
+  return `${y}-${mo}-${d}T${h}:${mi}:${sec}${offset ?? ""}`;
+};
+
+/** Degrees, minutes and seconds as signed decimal degrees, rounded to about a metre. */
+const toDegrees = (dms: number[] | undefined, ref: string | undefined): number | undefined => {
+  if (!dms || dms.length < 3 || dms.some((n) => !Number.isFinite(n))) return undefined;
+  const degrees = dms[0] + dms[1] / 60 + dms[2] / 3600;
+  const signed = ref === "S" || ref === "W" ? -degrees : degrees;
+  return Math.round(signed * 1e5) / 1e5;
+};
+
+/** EXIF orientation (1-8) of a JPEG from its first bytes; 1, upright, when absent or unreadable. */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const exif = findExif(bytes);
+  if (!exif) return 1;
+
+  const [orientation] = getNumbers(readIfd0(exif), TAGS.orientation) ?? [1];
+  return orientation >= 1 && orientation <= 8 ? orientation : 1;
+};
+
+/** Photo metadata from a JPEG's first bytes; empty when it has no readable EXIF block. */
+export const readExif = (bytes: Uint8Array): ExifTags => {
+  const exif = findExif(bytes);
+  if (!exif) return {};
+
+  const ifd0 = readIfd0(exif);
+  const [exifOffset] = getNumbers(ifd0, TAGS.exifIfd) ?? [];
+  const [gpsOffset] = getNumbers(ifd0, TAGS.gpsIfd) ?? [];
+  const sub = exifOffset ? readIfd(exif, exifOffset) : new Map<number, ExifValue>();
+  const gps = gpsOffset ? readIfd(exif, gpsOffset) : new Map<number, ExifValue>();
+
+  const make = getString(ifd0, TAGS.make);
+  const model = getString(ifd0, TAGS.model);
+  const date = getString(sub, TAGS.dateTimeOriginal) ?? getString(ifd0, TAGS.dateTime);
+
+  return {
+    description: getString(ifd0, TAGS.imageDescription),
+    artist: getString(ifd0, TAGS.artist),
+    copyright: getString(ifd0, TAGS.copyright),
+    camera: make && model && !model.startsWith(make) ? `${make} ${model}` : (model ?? make),
+    lens: getString(sub, TAGS.lensModel),
+    capturedAt: date ? toIsoDate(date, getString(sub, TAGS.offsetTimeOriginal)) : undefined,
+    latitude: toDegrees(getNumbers(gps, GPS_TAGS.latitude), getString(gps, GPS_TAGS.latitudeRef)),
+    longitude: toDegrees(getNumbers(gps, GPS_TAGS.longitude), getString(gps, GPS_TAGS.longitudeRef)),
+  };
+};
+
+/** Draw raw, unrotated pixels the way `orientation` says they should be displayed. */
+export const applyOrientation = (source: ImageBitmap, orientation: number): HTMLCanvasElement => {
+  const { width: w, height: h } = source;
+  const canvas = document.createElement("canvas");
+  // 5-8 are rotated a quarter turn
+  const swap = orientation >= 5;
+  canvas.width = swap ? h : w;
+  canvas.height = swap ? w : h;
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  const transforms: Record<number, [number, number, number, number, number, number]> = {
+    2: [-1, 0, 0, 1, w, 0],
+    3: [-1, 0, 0, -1, w, h],
+    4: [1, 0, 0, -1, 0, h],
+    5: [0, 1, 1, 0, 0, 0],
+    6: [0, 1, -1, 0, h, 0],
+    7: [0, -1, -1, 0, h, w],
+    8: [0, -1, 1, 0, 0, w],
+  };
+  const transform = transforms[orientation];
+  if (transform) ctx.transform(...transform);
+  ctx.drawImage(source, 0, 0);
+  return canvas;
+};
@@ -0,0 +1,125 @@
+import * as React from "react";
+import styles from "./style.module.css";
+import type { UploadEntry, UploadProgress } from "./use-uploads";
+
+export { UploadDropZone } from "./drop-zone";
+
+function UploadRow({
+  upload,
+  onRename,
+  onDelete,
+}: {
+  upload: UploadEntry;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const title = upload.item.title ?? "";
+  const [name, setName] = React.useState(title);
+
+  React.useEffect(() => {
+    setName(title);
+  }, [title]);
+
+  const commit = () => {
+    const next = name.trim();
+    if (next && next !== title) onRename(upload.id, next);
+    else setName(title);
+  };
+
+  return (
+    <li className={styles.row}>
+      <img className={styles.thumb} src={upload.thumbnailUrl} alt="" />
+      <div className={styles.info}>
+        <input
+          className={styles.name}
+          value={name}
+          aria-label="Upload name"
+          onChange={(e) => setName(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") e.currentTarget.blur();
+          }}
+        />
+        <span className={styles.dims}>
+          {[`${upload.item.width} × ${upload.item.height}`, upload.item.artist, upload.item.year].filter(Boolean).join(" · ")}
+        </span>
+      </div>
+      <button className={styles.delete} type="button" aria-label={`Delete ${title}`} onClick={() => onDelete(upload.id)}>
+        {"✕"}
+      </button>
+    </li>
+  );
+}
+
+/** Files still processing, with a bar each, and the rejected ones with the reason. */
+function UploadQueue({ progress, onDismiss }: { progress: UploadProgress[]; onDismiss: () => void }) {
+  const processing = progress.filter((p) => !p.error).length;
+  const rejected = progress.length - processing;
+
+  return (
+    <div className={styles.queue}>
+      <p className={styles.queueSummary} aria-live="polite">
+        {processing > 0 && `Adding ${processing} ${processing === 1 ? "file" : "files"}`}
+        {processing > 0 && rejected > 0 && " · "}
+        {rejected > 0 && `${rejected} rejected`}
+      </p>
+      <ul className={styles.queueList}>
+        {progress.map((p) => (
+          <li key={p.key} className={styles.queueRow}>
+            <span className={styles.queueName}>{p.name}</span>
+            {p.error ? (
+              <span className={styles.queueError}>{p.error}</span>
+            ) : (
+              <progress className={styles.queueBar} value={p.progress} max={1} aria-label={`${p.name} progress`} />
+            )}
+          </li>
+        ))}
+      </ul>
+      {rejected > 0 && (
+        <button className={styles.queueDismiss} type="button" onClick={onDismiss}>
+          Dismiss
+        </button>
+      )}
+    </div>
+  );
+}
+
+export function UploadsPanel({
+  uploads,
+  progress,
+  onRename,
+  onDelete,
+  onDismissRejected,
+}: {
+  uploads: UploadEntry[];
+  progress: UploadProgress[];
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onDismissRejected: () => void;
+}) {
+  const [open, setOpen] = React.useState(false);
+
+  if (!uploads.length && !progress.length) {
+    return null;
+  }
+
+  return (
+    <div className={styles.wrapper}>
+      {progress.length > 0 && <UploadQueue progress={progress} onDismiss={onDismissRejected} />}
+
+      {uploads.length > 0 && (
+        <button className={styles.toggle} type="button" onClick={() => setOpen((v) => !v)} aria-expanded={open}>
+          My uploads ({uploads.length})
+        </button>
+      )}
+
+      {open && uploads.length > 0 && (
+        <ul className={styles.list}>
+          {uploads.map((upload) => (
+            <UploadRow key={upload.id} upload={upload} onRename={onRename} onDelete={onDelete} />
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,57 @@
+import type { MediaItem, MediaMeta } from "~/src/infinite-canvas/types";
+import { readExif } from "./exif";
+import { readXmp } from "./xmp";
+
+/** What an upload's embedded metadata says about it, in `MediaItem` terms. */
+export type PhotoMetadata = Pick<MediaItem, "title" | "artist" | "year" | "meta">;
+
+// Descriptions cameras fill in on their own, which say nothing about the photo
+const PLACEHOLDER_DESCRIPTION = /^(|OLYMPUS DIGITAL CAMERA|SONY DSC|DIGITAL CAMERA|default|untitled|image)$/i;
+// Longer descriptions read as captions and stay in `meta` rather than becoming the title
+const MAX_TITLE_LENGTH = 80;
+
+const parsePhotoMetadata = (header: Uint8Array): PhotoMetadata => {
+  const exif = readExif(header);
+  const xmp = readXmp(header);
+
+  const description = [xmp.description, exif.description].find((d) => d && !PLACEHOLDER_DESCRIPTION.test(d));
+  const caption = description && description.length <= MAX_TITLE_LENGTH ? description : undefined;
+  const title = xmp.title ?? caption;
+  const capturedAt = exif.capturedAt ?? xmp.capturedAt;
+
+  const meta: MediaMeta = {};
+  const fields: Record<string, string | number | undefined> = {
+    capturedAt,
+    camera: exif.camera,
+    lens: exif.lens,
+    latitude: exif.latitude,
+    longitude: exif.longitude,
+    description: description !== title ? description : undefined,
+    keywords: xmp.keywords?.join(", "),
+    copyright: xmp.rights ?? exif.copyright,
+  };
+  for (const [key, value] of Object.entries(fields)) {
+    if (value !== undefined) meta[key] = value;
+  }
+
+  return {
+    title,
+    artist: xmp.creator ?? exif.artist,
+    year: capturedAt?.match(/^\d{4}/)?.[0],
+    meta: Object.keys(meta).length ? meta : undefined,
+  };
+};
+
+/**
+ * EXIF and XMP fields of a file from its first bytes. XMP wins for the title and creator, which
+ * editors write there; EXIF wins for what the camera recorded (date, camera, position). Metadata is
+ * optional, so a block that can't be parsed just leaves it empty.
+ */
+export const readPhotoMetadata = (header: Uint8Array): PhotoMetadata => {
+  try {
+    return parsePhotoMetadata(header);
+  } catch (err) {
+    console.error("Skipping unreadable photo metadata:", err);
+    return {};
+  }
+};
@@ -0,0 +1,129 @@
+import { analyzePixels, rgbToHex } from "~/src/infinite-canvas/color-analysis";
+import { captureVideoFrame } from "~/src/infinite-canvas/media-playback";
+import type { StoredUpload } from "./db";
+import { applyOrientation, readExifOrientation } from "./exif";
+import { readPhotoMetadata } from "./metadata";
+import { HEADER_BYTES, MAX_UPLOAD_DIMENSION, checkUpload } from "./validate";
+
+const THUMBNAIL_SIZE = 256;
+
+const stripExtension = (name: string): string => name.replace(/\.[^.]+$/, "");
+
+type Frame = ImageBitmap | HTMLCanvasElement;
+
+const drawThumbnail = (bitmap: Frame): HTMLCanvasElement => {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+  canvas.getContext("2d")?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const encodeThumbnail = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Thumbnail encoding failed"))), "image/jpeg", 0.8);
+  });
+
+/** Palette of the thumbnail, so uploads carry colors like manifest items do. */
+const analyzeThumbnail = (canvas: HTMLCanvasElement): Pick<StoredUpload, "dominantColor" | "palette"> => {
+  const data = canvas.getContext("2d")?.getImageData(0, 0, canvas.width, canvas.height).data;
+  if (!data) return {};
+
+  const { dominant, palette } = analyzePixels(data);
+  return { dominantColor: rgbToHex(dominant), palette };
+};
+
+export type UploadResult = { ok: true; upload: StoredUpload } | { ok: false; error: string };
+
+/** Steps reported through `processUpload`'s `onProgress`, as a share of the whole. */
+const PROGRESS = { checked: 0.1, decoded: 0.6, thumbnail: 0.9 };
+const UNDECODABLE = "Couldn't be decoded; the file may be corrupt or in an unsupported format.";
+
+const encodeUpright = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    // Lossless sources stay lossless; everything else was a (phone) JPEG
+    const format = type === "image/png" || type === "image/webp" ? type : "image/jpeg";
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Image encoding failed"))), format, 0.92);
+  });
+
+/**
+ * The pixels to store, upright. JPEGs with an EXIF rotation (phone photos) are decoded unrotated and
+ * redrawn, so every later consumer, from the texture worker to `<img>` thumbnails, sees them upright.
+ */
+const readFrame = async (file: File, type: string, header: Uint8Array): Promise<{ frame: Frame; blob: Blob }> => {
+  if (type.startsWith("video/")) {
+    const url = URL.createObjectURL(file);
+    try {
+      return { frame: await captureVideoFrame(url), blob: file };
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  const orientation = type === "image/jpeg" ? readExifOrientation(header) : 1;
+  if (orientation === 1) return { frame: await createImageBitmap(file), blob: file };
+
+  const raw = await createImageBitmap(file, { imageOrientation: "none" });
+  try {
+    const upright = applyOrientation(raw, orientation);
+    return { frame: upright, blob: await encodeUpright(upright, type) };
+  } finally {
+    raw.close();
+  }
+};
+
+/**
+ * Check a file, then decode it once to read its dimensions, render a thumbnail and sample its colors.
+ * Title, artist, year and `meta` come from the file's EXIF / XMP metadata where it has any.
+ * Failures come back as a reason to show next to the file rather than as exceptions.
+ */
+export const processUpload = async (file: File, onProgress?: (progress: number) => void): Promise<UploadResult> => {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const check = checkUpload(file, header);
+  if (!check.ok) return check;
+  onProgress?.(PROGRESS.checked);
+
+  let decoded: { frame: Frame; blob: Blob };
+  try {
+    decoded = await readFrame(file, check.type, header);
+  } catch (err) {
+    console.error("Failed to decode upload:", file.name, err);
+    return { ok: false, error: UNDECODABLE };
+  }
+
+  const { frame, blob } = decoded;
+  try {
+    if (!frame.width || !frame.height) {
+      return { ok: false, error: UNDECODABLE };
+    }
+    if (Math.max(frame.width, frame.height) > MAX_UPLOAD_DIMENSION) {
+      return {
+        ok: false,
+        error: `Too large (${frame.width} × ${frame.height}); sides can be up to ${MAX_UPLOAD_DIMENSION} pixels.`,
+      };
+    }
+    onProgress?.(PROGRESS.decoded);
+
+    const thumbnail = drawThumbnail(frame);
+    const { title, artist, year, meta } = readPhotoMetadata(header);
+    const upload: StoredUpload = {
+      id: crypto.randomUUID(),
+      name: title ?? stripExtension(file.name),
+      artist,
+      year,
+      meta,
+      type: blob === file ? check.type : blob.type,
+      blob,
+      thumbnail: await encodeThumbnail(thumbnail),
+      ...analyzeThumbnail(thumbnail),
+      width: frame.width,
+      height: frame.height,
+      createdAt: Date.now(),
+    };
+    onProgress?.(PROGRESS.thumbnail);
+    return { ok: true, upload };
+  } finally {
+    if (frame instanceof ImageBitmap) frame.close();
+  }
+};
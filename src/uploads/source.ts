@@ -0,0 +1,37 @@
+import type { CollectionSource } from "~/src/collections/source";
+import { DEFAULT_PAGE_SIZE } from "~/src/collections/source";
+import { listUploads } from "./db";
+import type { StoredUpload, UploadPosition } from "./db";
+import type { UploadEntry } from "./use-uploads";
+
+/** Object urls are created here; whoever keeps the entry revokes them. */
+export const toUploadEntry = (upload: StoredUpload): UploadEntry => ({
+  id: upload.id,
+  item: {
+    url: URL.createObjectURL(upload.blob),
+    width: upload.width,
+    height: upload.height,
+    dominantColor: upload.dominantColor,
+    palette: upload.palette,
+    title: upload.name,
+    artist: upload.artist,
+    year: upload.year,
+    type: upload.type,
+    uploadId: upload.id,
+    meta: upload.meta,
+  },
+  thumbnailUrl: URL.createObjectURL(upload.thumbnail),
+});
+
+/** Uploads persisted in IndexedDB, oldest first; the cursor is the JSON `UploadPosition` of the last one read. */
+export const createUploadSource = (pageSize = DEFAULT_PAGE_SIZE): CollectionSource<UploadEntry> => ({
+  id: "uploads",
+  loadPage: async (cursor, signal) => {
+    const stored = await listUploads(pageSize, cursor === null ? undefined : (JSON.parse(cursor) as UploadPosition));
+    signal.throwIfAborted();
+
+    const last = stored.at(-1);
+    const next: UploadPosition | null = stored.length === pageSize && last ? { createdAt: last.createdAt, id: last.id } : null;
+    return { items: stored.map(toUploadEntry), next: next && JSON.stringify(next) };
+  },
+});
@@ -0,0 +1,109 @@
+import * as React from "react";
+import type { MediaItem } from "~/src/infinite-canvas/types";
+import { deleteUpload, putUpload, renameUpload } from "./db";
+import { processUpload } from "./process";
+import { createUploadSource, toUploadEntry } from "./source";
+
+export type UploadEntry = {
+  id: string;
+  item: MediaItem;
+  thumbnailUrl: string;
+};
+
+/** A file still being processed, or one that was rejected. */
+export type UploadProgress = {
+  /** Unique per attempt; files in different folders can share names. */
+  key: string;
+  name: string;
+  /** 0-1 */
+  progress: number;
+  /** Why the file was rejected; rejected files stay listed until dismissed. */
+  error?: string;
+};
+
+const revokeEntry = (entry: UploadEntry) => {
+  URL.revokeObjectURL(entry.item.url);
+  URL.revokeObjectURL(entry.thumbnailUrl);
+};
+
+/** Uploaded images and videos, persisted in IndexedDB and restored page by page on startup. */
+export function useUploads() {
+  const [uploads, setUploads] = React.useState<UploadEntry[]>([]);
+  const [progress, setProgress] = React.useState<UploadProgress[]>([]);
+  const uploadsRef = React.useRef(uploads);
+
+  React.useEffect(() => {
+    uploadsRef.current = uploads;
+  }, [uploads]);
+
+  // Restored a page at a time, ahead of anything uploaded while restoring
+  React.useEffect(() => {
+    const controller = new AbortController();
+    const source = createUploadSource();
+    let restored = 0;
+
+    const restore = async (cursor: string | null) => {
+      const page = await source.loadPage(cursor, controller.signal);
+      const at = restored;
+      restored += page.items.length;
+      setUploads((prev) => [...prev.slice(0, at), ...page.items, ...prev.slice(at)]);
+      if (page.next) await restore(page.next);
+    };
+
+    restore(null).catch((err) => {
+      if (!controller.signal.aborted) console.error("Failed to restore uploads:", err);
+    });
+
+    return () => controller.abort();
+  }, []);
+
+  React.useEffect(() => {
+    return () => uploadsRef.current.forEach(revokeEntry);
+  }, []);
+
+  /** Files are processed one at a time and shown as soon as each is ready. */
+  const addFiles = React.useCallback(async (files: File[]) => {
+    const pending = files.map((file) => ({ key: crypto.randomUUID(), name: file.name, progress: 0 }));
+    setProgress((prev) => [...prev, ...pending]);
+
+    const update = (key: string, change: Partial<UploadProgress> | null) =>
+      setProgress((prev) =>
+        change ? prev.map((p) => (p.key === key ? { ...p, ...change } : p)) : prev.filter((p) => p.key !== key)
+      );
+
+    for (const [i, file] of files.entries()) {
+      const { key } = pending[i];
+      try {
+        const result = await processUpload(file, (value) => update(key, { progress: value }));
+        if (!result.ok) {
+          update(key, { error: result.error });
+          continue;
+        }
+
+        // Keep the upload for this session even if it can't be persisted
+        await putUpload(result.upload).catch((err) => console.error("Failed to persist upload:", file.name, err));
+        setUploads((prev) => [...prev, toUploadEntry(result.upload)]);
+        update(key, null);
+      } catch (err) {
+        console.error("Failed to read upload:", file.name, err);
+        update(key, { error: "Couldn't be read." });
+      }
+    }
+  }, []);
+
+  const dismissRejected = React.useCallback(() => setProgress((prev) => prev.filter((p) => !p.error)), []);
+
+  const rename = React.useCallback(async (id: string, name: string) => {
+    setUploads((prev) => prev.map((u) => (u.id === id ? { ...u, item: { ...u.item, title: name } } : u)));
+    await renameUpload(id, name).catch((err) => console.error("Failed to rename upload:", err));
+  }, []);
+
+  const remove = React.useCallback(async (id: string) => {
+    const entry = uploadsRef.current.find((u) => u.id === id);
+    if (entry) revokeEntry(entry);
+    setUploads((prev) => prev.filter((u) => u.id !== id));
+    await deleteUpload(id).catch((err) => console.error("Failed to delete upload:", err));
+  }, []);
+
+  return { uploads, progress, addFiles, dismissRejected, rename, remove };
+}
@@ -0,0 +1,73 @@
+/** Checks run on each upload before anything is decoded. */
+
+/** Bytes read up front: enough to sniff the format and, for JPEGs, hold the whole EXIF segment. */
+export const HEADER_BYTES = 128 * 1024;
+
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+const MAX_VIDEO_BYTES = 250 * 1024 * 1024;
+// Largest texture side WebGL guarantees on the desktop GPUs we target
+export const MAX_UPLOAD_DIMENSION = 16384;
+
+export type UploadCheck = { ok: true; type: string } | { ok: false; error: string };
+
+const ascii = (bytes: Uint8Array, start: number, length: number): string =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// ISO base media brands (the four bytes after "ftyp")
+const HEIF_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"];
+const AVIF_BRANDS = ["avif", "avis"];
+const QUICKTIME_BRANDS = ["qt  "];
+
+/**
+ * Format from the file's magic bytes. Folder uploads and some platforms leave `File.type` empty,
+ * and extensions lie, so this wins over both. Null when unrecognized.
+ */
+export const sniffType = (bytes: Uint8Array): string | null => {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(bytes, 0, 8) === "\x89PNG\r\n\x1a\n") return "image/png";
+  if (ascii(bytes, 0, 4) === "GIF8") return "image/gif";
+  if (ascii(bytes, 0, 4) === "RIFF" && ascii(bytes, 8, 4) === "WEBP") return "image/webp";
+  if (ascii(bytes, 0, 4) === "II*\0" || ascii(bytes, 0, 4) === "MM\0*") return "image/tiff";
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return "video/webm";
+
+  if (ascii(bytes, 4, 4) === "ftyp") {
+    const brand = ascii(bytes, 8, 4);
+    if (HEIF_BRANDS.includes(brand)) return "image/heic";
+    if (AVIF_BRANDS.includes(brand)) return "image/avif";
+    if (QUICKTIME_BRANDS.includes(brand)) return "video/quicktime";
+    return "video/mp4";
+  }
+  return null;
+};
+
+const formatMegabytes = (bytes: number): string => `${Math.round(bytes / (1024 * 1024))} MB`;
+
+/** Type to store the upload under, or why it can't be used. */
+export const checkUpload = (file: File, header: Uint8Array): UploadCheck => {
+  const type = sniffType(header) ?? file.type;
+  const ext = file.name.split(".").pop()?.toLowerCase() ?? "";
+
+  if (type === "image/heic" || type === "image/heif" || ext === "heic" || ext === "heif") {
+    return { ok: false, error: "HEIC photos can't be shown in the browser. Export them as JPEG first." };
+  }
+  if (type === "image/tiff" || ext === "tif" || ext === "tiff") {
+    return { ok: false, error: "TIFF images can't be shown in the browser. Convert them to JPEG or PNG first." };
+  }
+  if (!file.size) {
+    return { ok: false, error: "The file is empty." };
+  }
+
+  const isVideo = type.startsWith("video/");
+  if (!isVideo && !type.startsWith("image/")) {
+    return { ok: false, error: "Not an image or video." };
+  }
+
+  const limit = isVideo ? MAX_VIDEO_BYTES : MAX_IMAGE_BYTES;
+  if (file.size > limit) {
+    return {
+      ok: false,
+      error: `Too large (${formatMegabytes(file.size)}); ${isVideo ? "videos" : "images"} can be up to ${formatMegabytes(limit)}.`,
+    };
+  }
+  return { ok: true, type };
+};
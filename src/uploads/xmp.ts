@@ -0,0 +1,70 @@
+/**
+ * XMP packets, which cameras, phones and editors embed as plain XML in JPEG, PNG and WebP alike,
+ * so the packet is found by scanning for it rather than by walking each container format.
+ */
+
+const NS = {
+  rdf: "http://www.w3.org/1999/02/22-rdf-syntax-ns#",
+  dc: "http://purl.org/dc/elements/1.1/",
+  xmp: "http://ns.adobe.com/xap/1.0/",
+  photoshop: "http://ns.adobe.com/photoshop/1.0/",
+  exif: "http://ns.adobe.com/exif/1.0/",
+};
+
+const PACKET_START = "<x:xmpmeta";
+const PACKET_END = "</x:xmpmeta>";
+
+/** The fields of an XMP packet that uploads keep. */
+export type XmpTags = {
+  title?: string;
+  creator?: string;
+  description?: string;
+  rights?: string;
+  keywords?: string[];
+  /** ISO 8601, as written by the camera or editor. */
+  capturedAt?: string;
+};
+
+/**
+ * Values of a property, which XMP writes either as an element (holding an rdf:Alt, Bag or Seq of
+ * `rdf:li`, or plain text) or as an attribute of an `rdf:Description`.
+ */
+const readProperty = (doc: Document, ns: string, name: string): string[] => {
+  const [element] = doc.getElementsByTagNameNS(ns, name);
+  if (element) {
+    const items = Array.from(element.getElementsByTagNameNS(NS.rdf, "li"), (li) => li.textContent?.trim() ?? "");
+    const values = items.length ? items : [element.textContent?.trim() ?? ""];
+    return values.filter(Boolean);
+  }
+
+  for (const description of doc.getElementsByTagNameNS(NS.rdf, "Description")) {
+    const value = description.getAttributeNS(ns, name)?.trim();
+    if (value) return [value];
+  }
+  return [];
+};
+
+/** The XMP packet's fields from a file's first bytes; empty when there is none or it doesn't parse. */
+export const readXmp = (bytes: Uint8Array): XmpTags => {
+  // One byte per character, so string offsets are byte offsets
+  const text = new TextDecoder("latin1").decode(bytes);
+  const start = text.indexOf(PACKET_START);
+  const end = start === -1 ? -1 : text.indexOf(PACKET_END, start);
+  if (end === -1) return {};
+
+  const xml = new TextDecoder().decode(bytes.subarray(start, end + PACKET_END.length));
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length) return {};
+
+  const first = (ns: string, name: string): string | undefined => readProperty(doc, ns, name)[0];
+  const keywords = readProperty(doc, NS.dc, "subject");
+
+  return {
+    title: first(NS.dc, "title"),
+    creator: readProperty(doc, NS.dc, "creator").join(", ") || undefined,
+    description: first(NS.dc, "description"),
+    rights: first(NS.dc, "rights"),
+    keywords: keywords.length ? keywords : undefined,
+    capturedAt: first(NS.exif, "DateTimeOriginal") ?? first(NS.photoshop, "DateCreated") ?? first(NS.xmp, "CreateDate"),
+  };
+};
@@ -0,0 +1,26 @@
+import * as React from "react";
+
+const QUERY = "(prefers-reduced-motion: reduce)";
+
+const getPrefersReducedMotion = (): boolean => window.matchMedia?.(QUERY).matches ?? false;
+
+export function useReducedMotion(): boolean {
+  const [reducedMotion, setReducedMotion] = React.useState<boolean>(() => getPrefersReducedMotion());
+
+  React.useEffect(() => {
+    const mediaQuery = window.matchMedia(QUERY);
+
+    const handleChange = () => {
+      setReducedMotion(getPrefersReducedMotion());
+    };
+
+    handleChange();
+    mediaQuery.addEventListener("change", handleChange);
+
+    return () => {
+      mediaQuery.removeEventListener("change", handleChange);
+    };
+  }, []);
+
+  return reducedMotion;
+}
@@ -22,6 +22,7 @@ export default defineConfig({
   server: {
     proxy: {
       "/api/copilotkit": "http://localhost:4200",
+      "/api/media": "http://localhost:4200",
     },
   },
 });